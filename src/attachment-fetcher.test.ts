@@ -0,0 +1,95 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createHash } from "node:crypto";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import * as nip44 from "nostr-tools/nip44";
+import { fetchAttachment } from "./attachment-fetcher.js";
+import { DEFAULT_MEDIA_LIMITS } from "./media-fetch.js";
+import { createLocalSigner } from "./signer.js";
+
+const senderSk = generateSecretKey();
+const recipientSk = generateSecretKey();
+const recipient = createLocalSigner(recipientSk);
+const file = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0x00]);
+// Base64 inside NIP-44, as text-only clients send files
+const blob = Buffer.from(nip44.encrypt(file.toString("base64"), nip44.getConversationKey(senderSk, recipient.publicKey)));
+const sha256 = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+
+let server: Server;
+let base: string;
+let dir: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === "/missing") {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    // Blossom servers see ciphertext and guess accordingly
+    res.writeHead(200, { "content-type": "image/jpeg", "content-length": blob.length });
+    res.end(blob);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  dir = await mkdtemp(join(tmpdir(), "attachment-fetcher-"));
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  await rm(dir, { recursive: true, force: true });
+});
+
+const lan = { ...DEFAULT_MEDIA_LIMITS, allowPrivateNetwork: true };
+
+describe("fetchAttachment", () => {
+  it("decrypts a NIP-44 blob under its declared type", async () => {
+    const fetched = await fetchAttachment(
+      {
+        url: `${base}/missing`,
+        fallbacks: [`${base}/blob`],
+        encryption: { algorithm: "nip44", senderPubkey: getPublicKey(senderSk) },
+        encryptedHash: sha256(blob),
+        originalHash: sha256(file),
+        mimeType: "image/png",
+      },
+      recipient,
+      lan,
+      dir,
+      "attachment-1",
+    );
+    expect(fetched).toMatchObject({ url: `${base}/blob`, mimeType: "image/png", size: file.length, sha256: sha256(file) });
+    expect(fetched.path).toBe(join(dir, "attachment-1.png"));
+    expect(await readFile(fetched.path)).toEqual(file);
+  });
+
+  it("falls back to the server's type when none is declared", async () => {
+    const fetched = await fetchAttachment(
+      { url: `${base}/blob`, encryption: { algorithm: "nip44", senderPubkey: getPublicKey(senderSk) } },
+      recipient,
+      lan,
+      dir,
+      "attachment-2",
+    );
+    expect(fetched.mimeType).toBe("image/jpeg");
+  });
+
+  it("leaves nothing behind when the hashes don't match", async () => {
+    await expect(fetchAttachment(
+      {
+        url: `${base}/blob`,
+        encryption: { algorithm: "nip44", senderPubkey: getPublicKey(senderSk) },
+        encryptedHash: "0".repeat(64),
+      },
+      recipient,
+      lan,
+      dir,
+      "attachment-3",
+    )).rejects.toThrow(/does not match its x hash/);
+    expect((await readdir(dir)).filter((name) => name.startsWith("attachment-3"))).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import { createHash } from "node:crypto";
+import { rename, rm, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { extensionForMimeType } from "./mime-types.js";
+import { fetchMedia, fetchMediaToFile, type MediaLimits } from "./media-fetch.js";
+import { decryptAesGcmFile } from "./kind15-handler.js";
+import { decodeNip44Plaintext, nip44PayloadFromBlob } from "./media-handler.js";
+import { blobUrl } from "./blossom.js";
+import type { Nip17Signer } from "./signer.js";
+
+/**
+ * One fetcher for both inbound attachment schemes — kind 15 files
+ * (AES-GCM, key in the tags) and kind 14 `imeta` blobs (NIP-44 to us).
+ * Sources are tried in order: the primary URL, each `fallback`, then the
+ * blob's hash on the sender's Blossom servers. A source only counts once the
+ * encrypted hash (`x`) and the decrypted hash (`ox`) both match.
+ *
+ * Kind 15 files are streamed to disk and decrypted file-to-file, so a large
+ * PDF or video is never held in memory; NIP-44 blobs are small by
+ * construction (64 KB plaintext cap) and are decrypted in memory.
+ */
+
+export type AttachmentEncryption =
+  | { algorithm: "aes-gcm"; key: string; nonce: string }
+  | { algorithm: "nip44"; senderPubkey: string };
+
+export interface EncryptedAttachment {
+  url: string;
+  fallbacks?: string[];
+  encryption: AttachmentEncryption;
+  /** SHA-256 of the blob as served */
+  encryptedHash?: string;
+  /** SHA-256 of the decrypted file */
+  originalHash?: string;
+  /** Declared type (`m` / `file-type` tag) */
+  mimeType?: string;
+}
+
+export interface FetchedAttachment {
+  /** Decrypted file on disk, named with an extension for its MIME type */
+  path: string;
+  size: number;
+  /** SHA-256 of the decrypted file */
+  sha256: string;
+  mimeType?: string;
+  /** Source the file was actually retrieved from */
+  url: string;
+}
+
+function sha256(data: Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Blossom URLs end in the blob hash (optionally with an extension)
+function hashFromUrl(url: string): string | undefined {
+  try {
+    return /\/([0-9a-f]{64})(?:\.[a-z0-9]+)?$/i.exec(new URL(url).pathname)?.[1]?.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+async function decryptNip44Blob(
+  blob: Buffer,
+  attachment: EncryptedAttachment,
+  senderPubkey: string,
+  signer: Nip17Signer,
+): Promise<Buffer> {
+  const payload = nip44PayloadFromBlob(blob);
+  // Byte-exact when the key is local; a remote signer only returns UTF-8
+  // text, which is still exact for base64 and data-URL payloads.
+  const plaintext = signer.nip44DecryptBytes
+    ? Buffer.from(await signer.nip44DecryptBytes(senderPubkey, payload))
+    : Buffer.from(await signer.nip44Decrypt(senderPubkey, payload), "utf8");
+  return decodeNip44Plaintext(plaintext, attachment.mimeType, attachment.originalHash);
+}
+
+/**
+ * Fetch, verify and decrypt an attachment into `destDir` as
+ * `<baseName><ext>`. `senderServers` is asked for the sender's Blossom
+ * servers only once every listed URL has failed. Throws with each source's
+ * failure when none works; nothing is left on disk then.
+ */
+export async function fetchAttachment(
+  attachment: EncryptedAttachment,
+  signer: Nip17Signer,
+  limits: MediaLimits,
+  destDir: string,
+  baseName: string,
+  senderServers?: () => Promise<string[]>,
+): Promise<FetchedAttachment> {
+  const encryptedHash = attachment.encryptedHash?.toLowerCase() ?? hashFromUrl(attachment.url);
+  const downloadPath = join(destDir, `${baseName}.part`);
+  const decryptedPath = join(destDir, `${baseName}.tmp`);
+  const tried = new Set<string>();
+  const failures: string[] = [];
+
+  const retrieve = async (url: string): Promise<{ size: number; sha256: string; contentType?: string }> => {
+    const { encryption } = attachment;
+    if (encryption.algorithm === "aes-gcm") {
+      const downloaded = await fetchMediaToFile(url, downloadPath, limits);
+      if (attachment.encryptedHash && downloaded.sha256 !== encryptedHash) {
+        throw new Error("blob does not match its x hash");
+      }
+      const decrypted = await decryptAesGcmFile(downloadPath, decryptedPath, encryption.key, encryption.nonce);
+      return { ...decrypted, contentType: downloaded.contentType };
+    }
+    const { data: blob, contentType } = await fetchMedia(url, limits);
+    if (attachment.encryptedHash && sha256(blob) !== encryptedHash) {
+      throw new Error("blob does not match its x hash");
+    }
+    const data = await decryptNip44Blob(blob, attachment, encryption.senderPubkey, signer);
+    await writeFile(decryptedPath, data);
+    return { size: data.length, sha256: sha256(data), contentType };
+  };
+
+  const attempt = async (url: string): Promise<FetchedAttachment | null> => {
+    if (tried.has(url)) return null;
+    tried.add(url);
+    try {
+      const { size, sha256: fileHash, contentType } = await retrieve(url);
+      if (attachment.originalHash && fileHash !== attachment.originalHash.toLowerCase()) {
+        throw new Error("decrypted file does not match its ox hash");
+      }
+      // Servers see only ciphertext, so their type is at best a guess: the
+      // sender's declared type wins
+      const mimeType = attachment.mimeType ?? contentType;
+      const path = join(destDir, `${baseName}${extensionForMimeType(mimeType)}`);
+      await rename(decryptedPath, path);
+      return { path, size, sha256: fileHash, mimeType, url };
+    } catch (err) {
+      await rm(decryptedPath, { force: true });
+      failures.push(`${url}: ${(err as Error).message}`);
+      return null;
+    } finally {
+      await rm(downloadPath, { force: true });
+    }
+  };
+
+  for (const url of [attachment.url, ...(attachment.fallbacks ?? [])]) {
+    const fetched = await attempt(url);
+    if (fetched) return fetched;
+  }
+
+  if (encryptedHash && senderServers) {
+    for (const server of await senderServers()) {
+      const fetched = await attempt(blobUrl(server, encryptedHash));
+      if (fetched) return fetched;
+    }
+  }
+
+  throw new Error(failures.length === 1 ? failures[0] : `all sources failed: ${failures.join("; ")}`);
+}
+
+/**
+ * File name a sender's URL suggests, for display — Blossom URLs are bare
+ * hashes, so those yield nothing.
+ */
+export function originalNameFromUrl(url: string): string | undefined {
+  try {
+    const name = decodeURIComponent(basename(new URL(url).pathname));
+    return name && !hashFromUrl(url) ? name : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,90 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createHash } from "node:crypto";
+import { afterEach, describe, expect, it } from "vitest";
+import { generateSecretKey, verifyEvent } from "nostr-tools";
+import { createLocalSigner } from "./signer.js";
+import { uploadBlob, uploadBlobToServers } from "./blossom.js";
+
+// Stand-in Blossom server: accepts BUD-02 uploads and records what it got
+async function startBlossom(
+  respond: (req: IncomingMessage, body: Buffer) => { status: number; json?: unknown; reason?: string },
+): Promise<{ url: string; server: Server; requests: { auth?: string; body: Buffer }[] }> {
+  const requests: { auth?: string; body: Buffer }[] = [];
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+    requests.push({ auth: req.headers.authorization, body });
+    const { status, json, reason } = respond(req, body);
+    res.writeHead(status, { "content-type": "application/json", ...(reason ? { "x-reason": reason } : {}) });
+    res.end(json === undefined ? "" : JSON.stringify(json));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  servers.push(server);
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, server, requests };
+}
+
+const servers: Server[] = [];
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise((resolve) => s.close(resolve))));
+});
+
+const signer = createLocalSigner(generateSecretKey());
+const data = Buffer.from("ciphertext bytes");
+const sha256 = createHash("sha256").update(data).digest("hex");
+
+describe("uploadBlob", () => {
+  it("PUTs the blob with a kind 24242 authorization bound to its hash", async () => {
+    const blossom = await startBlossom(() => ({
+      status: 200,
+      json: { url: `http://blossom.test/${sha256}`, sha256, size: data.length },
+    }));
+
+    const descriptor = await uploadBlob(blossom.url, data, sha256, signer);
+
+    expect(descriptor.url).toBe(`http://blossom.test/${sha256}`);
+    expect(blossom.requests[0].body.equals(data)).toBe(true);
+    const auth = JSON.parse(Buffer.from(blossom.requests[0].auth!.replace(/^Nostr /, ""), "base64").toString("utf8"));
+    expect(verifyEvent(auth)).toBe(true);
+    expect(auth.kind).toBe(24242);
+    expect(auth.tags).toContainEqual(["x", sha256]);
+  });
+
+  it("rejects a descriptor for a different hash", async () => {
+    const blossom = await startBlossom(() => ({ status: 200, json: { url: "http://blossom.test/x", sha256: "0".repeat(64) } }));
+    await expect(uploadBlob(blossom.url, data, sha256, signer)).rejects.toThrow(/reported hash/);
+  });
+
+  it("surfaces the server's X-Reason", async () => {
+    const blossom = await startBlossom(() => ({ status: 413, reason: "too large" }));
+    await expect(uploadBlob(blossom.url, data, sha256, signer)).rejects.toThrow(/413 too large/);
+  });
+});
+
+describe("uploadBlobToServers", () => {
+  it("keeps server order and reports partial failures", async () => {
+    const down = await startBlossom(() => ({ status: 500, reason: "down" }));
+    const first = await startBlossom(() => ({ status: 200, json: { url: "http://one.test/blob", sha256 } }));
+    const second = await startBlossom(() => ({ status: 200, json: { url: "http://two.test/blob", sha256 } }));
+    const errors: string[] = [];
+
+    const uploaded = await uploadBlobToServers(
+      [down.url, first.url, second.url],
+      data,
+      sha256,
+      signer,
+      {},
+      (err, context) => errors.push(`${context}: ${err.message}`),
+    );
+
+    expect(uploaded.map((d) => d.url)).toEqual(["http://one.test/blob", "http://two.test/blob"]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^blossom-upload-partial: .*2\/3/);
+  });
+
+  it("throws when every server fails", async () => {
+    const down = await startBlossom(() => ({ status: 503 }));
+    await expect(uploadBlobToServers([down.url], data, sha256, signer)).rejects.toThrow(/failed on all servers/);
+  });
+});
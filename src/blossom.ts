@@ -0,0 +1,189 @@
+import type { SimplePool, Event } from "nostr-tools";
+import type { Nip17Signer } from "./signer.js";
+import { DISCOVERY_RELAYS } from "./relay-cache.js";
+
+// Used when an account has no `blossomServers` configured. Both accept
+// anonymous-but-signed uploads (BUD-02) of arbitrary encrypted blobs.
+export const DEFAULT_BLOSSOM_SERVERS = [
+  "https://blossom.primal.net",
+  "https://blossom.band",
+];
+
+// Upload authorization events are single-use in practice; keep the window
+// short so a leaked header can't be replayed for long.
+const AUTH_EXPIRATION_SEC = 5 * 60;
+
+// A server that accepts the connection and then stalls must not hold up the
+// reply forever
+const UPLOAD_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * BUD-02 blob descriptor returned by `PUT /upload`.
+ */
+export interface BlobDescriptor {
+  url: string;
+  sha256: string;
+  size: number;
+  type?: string;
+  uploaded?: number;
+}
+
+// Sender server lists (kind 10063) by pubkey; only needed when a blob's own
+// URLs fail, so an in-memory cache is enough.
+const serverListCache = new Map<string, { servers: string[]; fetchedAt: number }>();
+const SERVER_LIST_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+function normalizeServerUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * BUD-01 retrieval URL for a blob on a server.
+ */
+export function blobUrl(server: string, sha256: string): string {
+  return `${normalizeServerUrl(server)}/${sha256}`;
+}
+
+/**
+ * A user's Blossom servers from their kind 10063 list (BUD-03), in their
+ * order of preference. Returns an empty list when none is published or the
+ * lookup fails.
+ */
+export async function getUserServerList(
+  pool: SimplePool,
+  pubkey: string,
+  queryRelays: string[],
+  onError?: (error: Error, context: string) => void,
+): Promise<string[]> {
+  const cached = serverListCache.get(pubkey);
+  if (cached && Date.now() - cached.fetchedAt < SERVER_LIST_TTL_MS) return cached.servers;
+
+  try {
+    const normalizeUrl = (u: string) => u.replace(/\/+$/, "").toLowerCase();
+    const seen = new Set(queryRelays.map(normalizeUrl));
+    const events: Event[] = await pool.querySync(
+      [...queryRelays, ...DISCOVERY_RELAYS.filter((r) => !seen.has(normalizeUrl(r)))],
+      { kinds: [10063], authors: [pubkey], limit: 1 },
+      { maxWait: 5000 },
+    );
+    const latest = events.sort((a, b) => b.created_at - a.created_at)[0];
+    const servers = (latest?.tags ?? [])
+      .filter((t) => t[0] === "server" && /^https?:\/\//i.test(t[1] ?? ""))
+      .map((t) => t[1]);
+    serverListCache.set(pubkey, { servers, fetchedAt: Date.now() });
+    return servers;
+  } catch (err) {
+    onError?.(err as Error, `fetch kind 10063 for ${pubkey}`);
+    return cached?.servers ?? [];
+  }
+}
+
+/**
+ * Build the `Authorization: Nostr <base64>` header value for a BUD-02 upload.
+ * The kind 24242 event binds the authorization to the blob's sha256 (`x` tag).
+ */
+export async function buildBlossomUploadAuth(
+  signer: Nip17Signer,
+  sha256: string,
+  description: string,
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const event = await signer.signEvent({
+    kind: 24242,
+    created_at: now,
+    tags: [
+      ["t", "upload"],
+      ["x", sha256],
+      ["expiration", String(now + AUTH_EXPIRATION_SEC)],
+    ],
+    content: description,
+  });
+  return `Nostr ${Buffer.from(JSON.stringify(event), "utf8").toString("base64")}`;
+}
+
+/**
+ * Upload a blob to a single Blossom server (BUD-01/02).
+ */
+export async function uploadBlob(
+  server: string,
+  data: Uint8Array,
+  sha256: string,
+  signer: Nip17Signer,
+  opts: { contentType?: string; description?: string } = {},
+): Promise<BlobDescriptor> {
+  const signal = AbortSignal.timeout(UPLOAD_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${normalizeServerUrl(server)}/upload`, {
+      method: "PUT",
+      signal,
+      headers: {
+        Authorization: await buildBlossomUploadAuth(signer, sha256, opts.description ?? "Upload blob"),
+        "Content-Type": opts.contentType ?? "application/octet-stream",
+        "Content-Length": String(data.byteLength),
+      },
+      body: data as BodyInit,
+    });
+
+    if (!response.ok) {
+      // BUD-01: servers put a human-readable reason in X-Reason
+      const reason = response.headers.get("x-reason") ?? response.statusText;
+      throw new Error(`Blossom upload to ${server} failed: ${response.status} ${reason}`);
+    }
+
+    const descriptor = (await response.json()) as BlobDescriptor;
+    if (!descriptor?.url) {
+      throw new Error(`Blossom upload to ${server} returned no blob URL`);
+    }
+    if (descriptor.sha256 && descriptor.sha256 !== sha256) {
+      throw new Error(`Blossom server ${server} reported hash ${descriptor.sha256}, expected ${sha256}`);
+    }
+    return descriptor;
+  } catch (err) {
+    if (signal.aborted) throw new Error(`Blossom upload to ${server} timed out after ${UPLOAD_TIMEOUT_MS / 1000}s`);
+    throw err;
+  }
+}
+
+/**
+ * Upload a blob to every configured server in parallel.
+ * Returns the successful descriptors in server-list order, so the first entry
+ * is the preferred URL and the rest can be advertised as fallbacks.
+ * Throws only if every server rejected the upload.
+ */
+export async function uploadBlobToServers(
+  servers: string[],
+  data: Uint8Array,
+  sha256: string,
+  signer: Nip17Signer,
+  opts: { contentType?: string; description?: string } = {},
+  onError?: (error: Error, context: string) => void,
+): Promise<BlobDescriptor[]> {
+  if (servers.length === 0) {
+    throw new Error("No Blossom servers configured for upload");
+  }
+
+  const results = await Promise.allSettled(
+    servers.map((server) => uploadBlob(server, data, sha256, signer, opts)),
+  );
+
+  const uploaded: BlobDescriptor[] = [];
+  const failures: string[] = [];
+  results.forEach((r, i) => {
+    if (r.status === "fulfilled") {
+      uploaded.push(r.value);
+    } else {
+      failures.push(`${servers[i]}: ${(r.reason as Error)?.message ?? r.reason}`);
+    }
+  });
+
+  if (uploaded.length === 0) {
+    throw new Error(`Blossom upload failed on all servers: ${failures.join("; ")}`);
+  }
+  if (failures.length > 0) {
+    onError?.(
+      new Error(`Blossom upload succeeded on ${uploaded.length}/${servers.length} servers: ${failures.join("; ")}`),
+      "blossom-upload-partial",
+    );
+  }
+  return uploaded;
+}
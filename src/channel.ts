@@ -1,8 +1,57 @@
 import { type ChannelPlugin, DEFAULT_ACCOUNT_ID, buildChannelConfigSchema, formatPairingApproveHint } from "openclaw/plugin-sdk/core";
-import { createReplyPrefixOptions } from "openclaw/plugin-sdk/channel-runtime";
+import { createReplyPrefixOptions, type PluginRuntime } from "openclaw/plugin-sdk/channel-runtime";
 import { collectStatusIssuesFromLastError, createDefaultChannelRuntimeState } from "openclaw/plugin-sdk/channel-status";
 import { Nip17ConfigSchema } from "./config-schema.js";
-import { normalizePubkey, startNip17Bus, type Nip17BusHandle } from "./nip17-bus.js";
+import {
+  deriveRoomId,
+  normalizePubkey,
+  pubkeyToNpub,
+  startNip17Bus,
+  startNip17Publisher,
+  type Nip17BusHandle,
+  type Nip17Publisher,
+  type Nip17InboundMeta,
+  type Nip17RelayStatus,
+  type SenderStanding,
+} from "./nip17-bus.js";
+import { loadOutboundFile } from "./outbound-media.js";
+import { DEFAULT_MEDIA_LIMITS } from "./media-fetch.js";
+import { DEFAULT_MIME_TYPE } from "./mime-types.js";
+import { DEFAULT_MEDIA_RETENTION, startMediaSweeper } from "./media-retention.js";
+import {
+  DEFAULT_PAIRING_MESSAGES,
+  formatOwnerNotice,
+  formatPairingMessage,
+  openPairingBook,
+  parseOwnerDecision,
+  reactionDecision,
+  type OwnerDecision,
+  type PairingBook,
+} from "./owner-pairing.js";
+import type { PairingRequest } from "./state-store.js";
+import { senderLabel } from "./profile-cache.js";
+import {
+  NIP05_REVERIFY_INTERVAL_MS,
+  collectNip05Identifiers,
+  flaggedNip05ForAccount,
+  isContactAlias,
+  resolveContact,
+  resolveContactSync,
+  reverifyNip05Identifiers,
+} from "./contacts.js";
+import { isNip05Identifier } from "./nip05.js";
+import {
+  DEFAULT_WOT_DEPTH,
+  readCachedWebOfTrust,
+  trustDecision,
+  type WebOfTrustSnapshot,
+} from "./web-of-trust.js";
+import {
+  DEFAULT_HISTORY_SYNC_DAYS,
+  formatTranscriptJson,
+  formatTranscriptMarkdown,
+} from "./history-sync.js";
+import { readHistorySyncState, writeHistorySyncState } from "./state-store.js";
 import { getNip17Runtime } from "./runtime.js";
 import {
   listNip17AccountIds,
@@ -10,12 +59,45 @@ import {
   resolveNip17Account,
   type ResolvedNip17Account,
 } from "./types.js";
+import type { Nip17AccountConfig } from "./config-schema.js";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 
 const activeBuses = new Map<string, Nip17BusHandle>();
 
+// Send-only publishers started for outbound calls before the gateway started
+// the account; startAccount adopts them rather than opening a second pool.
+const sendOnlyPublishers = new Map<string, Promise<Nip17Publisher>>();
+
+// Buses startAccount is still bringing up, so an outbound send in that window
+// waits for the bus instead of starting a publisher of its own.
+const startingBuses = new Map<string, Promise<Nip17BusHandle>>();
+
+// Owner-decided pairing per running account (dmPolicy "pairing" with
+// ownerPubkeys set)
+const pairingBooks = new Map<string, PairingBook>();
+
+// Last "follows" allowlist per account, reused until allowFrom or the cached
+// web changes (a refetch replaces the snapshot object)
+const followsAllowFromCache = new Map<
+  string,
+  { configured: string; web: WebOfTrustSnapshot | null; allowFrom: Array<string | number> }
+>();
+
+// Conversations where a human operator answered from another client, keyed
+// `${accountId}:${conversationId}` → epoch ms until which the agent stays quiet.
+const operatorPauses = new Map<string, number>();
+
+function isOperatorPaused(accountId: string, conversationId: string): boolean {
+  const key = `${accountId}:${conversationId}`;
+  const until = operatorPauses.get(key);
+  if (until === undefined) return false;
+  if (until > Date.now()) return true;
+  operatorPauses.delete(key);
+  return false;
+}
+
 // Visible feedback while a reply is being computed. Sent as kind:7 reactions
 // (NIP-25, gift-wrapped per NIP-17) targeting the inbound rumor. One random
 // pick fires on reply-start; no keepalive cycle.
@@ -31,8 +113,265 @@ const EVENT_EMOJI = {
   compactionStart: "🗜️",
 } as const;
 
-async function ensureActiveBus(accountId: string): Promise<Nip17BusHandle> {
-  const existing = activeBuses.get(accountId);
+// One status issue per configured relay that is down or refused our AUTH, so
+// a single dead relay shows up even while the account as a whole is running.
+function relayStatusIssues(snapshot: { accountId: string; running?: boolean; relays?: Nip17RelayStatus[] }) {
+  if (!snapshot.running) return [];
+  return (snapshot.relays ?? [])
+    .filter((relay) => relay.auth === "rejected" || !relay.connected)
+    .map((relay) => {
+      const rejected = relay.auth === "rejected";
+      const reason = relay.lastCloseReason ? ` (${relay.lastCloseReason})` : "";
+      return {
+        channel: "nostr-nip17",
+        accountId: snapshot.accountId,
+        kind: rejected ? "auth" : "runtime",
+        message: `${relay.url}: ${rejected ? "NIP-42 auth rejected" : "disconnected"}${reason}`,
+      };
+    });
+}
+
+// NIP-17 group rooms are gated by groupAllowFrom (falling back to allowFrom).
+// "*" admits any sender; an empty list keeps group rooms closed.
+function isGroupSenderAllowed(account: ResolvedNip17Account, senderPubkey: string): boolean {
+  const entries = account.config.groupAllowFrom ?? account.config.allowFrom ?? [];
+  return entries.some((entry) => {
+    const e = String(entry).replace(/^nostr:/i, "").trim();
+    if (e === "*") return true;
+    return resolveContactSync(account.config, e) === senderPubkey;
+  });
+}
+
+// Who may run slash commands (resets, model switches, ...):
+// commandAllowFrom, else the owners (ownerPubkeys, web-of-trust owner) plus
+// explicit allowFrom entries. Senders approved through pairing are in
+// neither, and "*" only counts when commandAllowFrom lists it.
+function isCommandAuthorized(account: ResolvedNip17Account, senderPubkey: string): boolean {
+  const entries = account.config.commandAllowFrom ?? [
+    ...(account.config.ownerPubkeys ?? []),
+    ...(account.config.webOfTrust ? [account.config.webOfTrust.owner] : []),
+    ...(account.config.allowFrom ?? []).filter((entry) => String(entry).trim() !== "*"),
+  ];
+  return entries.some((entry) => {
+    const e = String(entry).replace(/^nostr:/i, "").trim();
+    if (e === "*") return true;
+    return resolveContactSync(account.config, e) === senderPubkey;
+  });
+}
+
+// "/reset", "/model opus" — but not a message that starts with a path
+const SLASH_COMMAND = /^\/[a-z][\w-]*(?:\s|$)/i;
+
+const COMMAND_REFUSAL = "Sorry, commands are limited to this bot's owner. Your command was not run.";
+
+// Senders the account already knows — allowlisted or named in contacts.
+// They skip the anti-spam proof-of-work requirement.
+function isKnownSender(account: ResolvedNip17Account, senderPubkey: string): boolean {
+  const entries = [
+    ...(account.config.allowFrom ?? []),
+    ...(account.config.groupAllowFrom ?? []),
+    ...Object.values(account.config.contacts ?? {}),
+  ];
+  return entries.some((entry) => {
+    const e = String(entry).replace(/^nostr:/i, "").trim();
+    return e !== "*" && resolveContactSync(account.config, e) === senderPubkey;
+  });
+}
+
+// NIP-40 lifetime for outbound messages: a peerMessageTtl entry beats the
+// account's messageTtl (0 turns expiry off for that peer). A group room gets
+// the shortest lifetime any of its members has.
+function resolveMessageTtl(account: ResolvedNip17Account, recipients: string[]): number | undefined {
+  const overrides = new Map<string, number>();
+  for (const [entry, ttl] of Object.entries(account.config.peerMessageTtl ?? {})) {
+    const pubkey = resolveContactSync(account.config, entry);
+    if (pubkey) overrides.set(pubkey, ttl);
+  }
+  const ttls = recipients
+    .map((recipient) => overrides.get(recipient) ?? account.config.messageTtl ?? 0)
+    .filter((ttl) => ttl > 0);
+  return ttls.length > 0 ? Math.min(...ttls) : undefined;
+}
+
+// dmPolicy "follows": explicit allowFrom entries plus the owner's web of
+// trust, with the owner's mute list overriding both. Until the web has been
+// fetched once only allowFrom gets through.
+function isFollowsSenderAllowed(account: ResolvedNip17Account, senderPubkey: string): boolean {
+  const owner = account.config.webOfTrust
+    ? resolveContactSync(account.config, account.config.webOfTrust.owner)
+    : null;
+  const depth = account.config.webOfTrust?.depth ?? DEFAULT_WOT_DEPTH;
+  const decision = owner ? trustDecision(owner, depth, senderPubkey) : "unknown";
+  if (decision === "muted") return false;
+  if (decision === "trusted") return true;
+  return (account.config.allowFrom ?? []).some((entry) => {
+    const e = String(entry).replace(/^nostr:/i, "").trim();
+    return e === "*" || resolveContactSync(account.config, e) === senderPubkey;
+  });
+}
+
+// The framework knows allowlists, not follow graphs: "follows" is reported
+// as an allowlist of allowFrom plus the cached web, minus muted keys.
+function followsAllowFrom(account: ResolvedNip17Account): Array<string | number> {
+  const owner = account.config.webOfTrust
+    ? resolveContactSync(account.config, account.config.webOfTrust.owner)
+    : null;
+  const web = owner
+    ? readCachedWebOfTrust(owner, account.config.webOfTrust?.depth ?? DEFAULT_WOT_DEPTH)
+    : null;
+  const configured = (account.config.allowFrom ?? []).join("\n");
+  const cached = followsAllowFromCache.get(account.accountId);
+  if (cached && cached.configured === configured && cached.web === web) return cached.allowFrom;
+
+  const muted = new Set(web?.muted ?? []);
+  const allowFrom = [...(account.config.allowFrom ?? []), ...(web?.trusted ?? [])].filter((entry) => {
+    const pubkey = resolveContactSync(account.config, String(entry));
+    return !pubkey || !muted.has(pubkey);
+  });
+  followsAllowFromCache.set(account.accountId, { configured, web, allowFrom });
+  return allowFrom;
+}
+
+function summarizeWebOfTrust(web: WebOfTrustSnapshot | null) {
+  return web
+    ? { owner: web.owner, depth: web.depth, trusted: web.trusted.length, muted: web.muted.length, fetchedAt: web.fetchedAt }
+    : undefined;
+}
+
+// Config of the default account, for adapters that normalize ids without
+// being told which account they belong to.
+function defaultAccountConfig(): Nip17AccountConfig {
+  try {
+    const cfg = getNip17Runtime().config.loadConfig();
+    return resolveNip17Account({ cfg, accountId: resolveDefaultNip17AccountId(cfg) }).config;
+  } catch {
+    return {};
+  }
+}
+
+// Session key suffix for a NIP-17 subject, so "Invoices Q3" and
+// "Server migration" with the same peer land in separate sessions.
+// Case/whitespace/punctuation differences map to the same session.
+function subjectSessionSuffix(subject: string): string {
+  const slug = subject
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+  return `subject:${slug || "untitled"}`;
+}
+
+// Agent route + session key for an inbound rumor: one session per peer (or
+// per group room), optionally further split by NIP-17 subject.
+function resolveConversationSession(
+  runtime: PluginRuntime,
+  cfg: ReturnType<PluginRuntime["config"]["loadConfig"]>,
+  account: ResolvedNip17Account,
+  senderPubkey: string,
+  meta: Nip17InboundMeta,
+) {
+  const route = runtime.channel.routing.resolveAgentRoute({
+    cfg,
+    channel: "nostr-nip17",
+    accountId: account.accountId,
+    peer: meta.chatType === "group"
+      ? { kind: "group", id: meta.conversationId }
+      : { kind: "direct", id: senderPubkey },
+  });
+  const sessionKey = account.config.sessionPerSubject && meta.subject
+    ? `${route.sessionKey}:${subjectSessionSuffix(meta.subject)}`
+    : route.sessionKey;
+  return { route, sessionKey };
+}
+
+// Messages per conversation handed to a seeded session; the full transcript
+// only goes to the export files.
+const HISTORY_SEED_MAX_MESSAGES = 50;
+
+// One-time backfill from relays on a host that has never synced this
+// account: seed each conversation's session and/or export transcripts.
+async function runHistorySync(
+  runtime: PluginRuntime,
+  account: ResolvedNip17Account,
+  bus: Nip17BusHandle,
+  senderStanding: (senderPubkey: string, meta: Pick<Nip17InboundMeta, "chatType">) => Promise<SenderStanding>,
+  log?: { info?: (msg: string) => void },
+): Promise<void> {
+  const opts = account.config.historySync ?? {};
+  if (await readHistorySyncState({ accountId: account.accountId })) return;
+
+  const days = opts.days ?? DEFAULT_HISTORY_SYNC_DAYS;
+  const transcripts = await bus.syncHistory({ days });
+  const messages = transcripts.reduce((n, t) => n + t.messages.length, 0);
+  log?.info?.(`[${account.accountId}] NIP-17 history sync: ${messages} message(s) in ${transcripts.length} conversation(s) from the last ${days} day(s)`);
+
+  if (opts.exportDir) {
+    const dir = opts.exportDir.startsWith("~/") ? path.join(os.homedir(), opts.exportDir.slice(2)) : opts.exportDir;
+    const stamp = new Date().toISOString().slice(0, 10);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${account.accountId}-${stamp}.json`), formatTranscriptJson(transcripts));
+    fs.writeFileSync(
+      path.join(dir, `${account.accountId}-${stamp}.md`),
+      transcripts.map((t) => formatTranscriptMarkdown(t)).join("\n\n"),
+    );
+  }
+
+  if (opts.seedSessions !== false) {
+    const cfg = runtime.config.loadConfig();
+    let skipped = 0;
+    for (const found of transcripts) {
+      // Only what live traffic would have let in: a DM peer the policy
+      // accepts, and in a group the messages of accepted members
+      let transcript = found;
+      if (found.chatType === "direct") {
+        if ((await senderStanding(found.conversationId, found)) !== "accepted") {
+          skipped++;
+          continue;
+        }
+      } else {
+        const accepted = new Set<string>();
+        for (const pubkey of new Set(found.messages.filter((m) => m.direction === "in").map((m) => m.pubkey))) {
+          if ((await senderStanding(pubkey, found)) === "accepted") accepted.add(pubkey);
+        }
+        transcript = { ...found, messages: found.messages.filter((m) => m.direction === "out" || accepted.has(m.pubkey)) };
+        if (!transcript.messages.some((m) => m.direction === "in")) {
+          skipped++;
+          continue;
+        }
+      }
+
+      const { sessionKey } = resolveConversationSession(runtime, cfg, account, transcript.participants[0], {
+        rumorId: transcript.messages.at(-1)?.id ?? transcript.conversationId,
+        createdAt: transcript.messages.at(-1)?.createdAt ?? 0,
+        chatType: transcript.chatType,
+        conversationId: transcript.conversationId,
+        participants: transcript.participants,
+      });
+      const shown = Math.min(transcript.messages.length, HISTORY_SEED_MAX_MESSAGES);
+      runtime.system.enqueueSystemEvent(
+        `Nostr conversation history restored from relays (last ${shown} of ${transcript.messages.length} messages):\n\n${formatTranscriptMarkdown(transcript, { maxMessages: HISTORY_SEED_MAX_MESSAGES })}`,
+        { sessionKey, contextKey: `nostr-nip17:history:${transcript.conversationId}` },
+      );
+    }
+    if (skipped > 0) {
+      log?.info?.(`[${account.accountId}] NIP-17 history sync: ${skipped} conversation(s) not seeded, the DM policy would not accept them`);
+    }
+  }
+
+  await writeHistorySyncState({
+    accountId: account.accountId,
+    syncedAt: Math.floor(Date.now() / 1000),
+    days,
+    conversations: transcripts.length,
+    messages,
+  });
+}
+
+async function ensureActiveBus(accountId: string): Promise<Nip17Publisher> {
+  // A start that fails leaves the send to a publisher of our own
+  const started = await startingBuses.get(accountId)?.catch(() => undefined);
+  const existing = started ?? activeBuses.get(accountId) ?? sendOnlyPublishers.get(accountId);
   if (existing) return existing;
 
   const runtime = getNip17Runtime();
@@ -41,18 +380,35 @@ async function ensureActiveBus(accountId: string): Promise<Nip17BusHandle> {
   if (!account.configured) {
     throw new Error(`NIP-17 account ${accountId} is not configured`);
   }
+  if (account.privateKeyError) {
+    throw new Error(`NIP-17 account ${accountId}: ${account.privateKeyError}`);
+  }
 
-  // Lazily start an outbound-capable bus when the framework has not already
-  // started this account in the current plugin instance.
-  const bus = await startNip17Bus({
+  // The framework has not started this account in the current plugin
+  // instance: start a publisher without a subscription, so inbound DMs stay
+  // on the relays for the gateway's bus instead of being read and dropped.
+  // No account context exists yet to log through, so use the runtime's.
+  const log = runtime.logging.getChildLogger({ channel: "nostr-nip17", accountId: account.accountId });
+  const publisher = startNip17Publisher({
     accountId: account.accountId,
     privateKey: account.privateKey,
+    bunker: account.signer,
     relays: account.relays,
-    onMessage: async () => {},
-    onError: () => {},
+    blossomServers: account.config.blossomServers,
+    publishServerList: account.config.publishServerList,
+    profile: account.profile,
+    outboxDeadlineMinutes: account.config.outboxDeadlineMinutes,
+    archive: account.config.archive,
+    messageTtl: (recipients) => resolveMessageTtl(account, recipients),
+    onError: (error, context) => {
+      log.error(`[${account.accountId}] NIP-17 send-only error (${context}): ${error.message}`);
+    },
+  });
+  sendOnlyPublishers.set(account.accountId, publisher);
+  publisher.catch(() => {
+    if (sendOnlyPublishers.get(account.accountId) === publisher) sendOnlyPublishers.delete(account.accountId);
   });
-  activeBuses.set(account.accountId, bus);
-  return bus;
+  return publisher;
 }
 
 export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
@@ -67,7 +423,7 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
     order: 54,
   },
   capabilities: {
-    chatTypes: ["direct"],
+    chatTypes: ["direct", "group"],
     media: true,
   },
   reload: { configPrefixes: ["channels.nostr-nip17"] },
@@ -100,40 +456,50 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
 
   pairing: {
     idLabel: "nostrPubkey",
-    normalizeAllowEntry: (entry) => {
-      try { return normalizePubkey(entry.replace(/^nostr:/i, "")); } catch { return entry; }
-    },
+    normalizeAllowEntry: (entry) => resolveContactSync(defaultAccountConfig(), entry) ?? entry,
     notifyApproval: async ({ id, accountId }) => {
       const aid = accountId ?? DEFAULT_ACCOUNT_ID;
       const bus = activeBuses.get(aid) ?? activeBuses.get(DEFAULT_ACCOUNT_ID);
-      if (bus) await bus.sendDm(id, "Your pairing request has been approved!");
+      if (!bus) return;
+      const account = resolveNip17Account({ cfg: getNip17Runtime().config.loadConfig(), accountId: aid });
+      const pubkey = resolveContactSync(account.config, id);
+      // Approved from the shell: settle the request the owners were sent too
+      if (pubkey) pairingBooks.get(aid)?.decide(pubkey, "approve");
+      const template = account.config.pairingMessages?.approved ?? DEFAULT_PAIRING_MESSAGES.approved;
+      await bus.sendDm(id, formatPairingMessage(template, { npub: pubkey ? pubkeyToNpub(pubkey) : id }));
     },
   },
 
   security: {
     resolveDmPolicy: ({ account }) => ({
-      policy: account.config.dmPolicy ?? "pairing",
-      allowFrom: account.config.allowFrom ?? [],
+      policy: account.config.dmPolicy === "follows" ? "allowlist" : account.config.dmPolicy ?? "pairing",
+      allowFrom: account.config.dmPolicy === "follows"
+        ? followsAllowFrom(account)
+        : [...(account.config.allowFrom ?? []), ...(pairingBooks.get(account.accountId)?.approved() ?? [])],
       policyPath: "channels.nostr-nip17.dmPolicy",
       allowFromPath: "channels.nostr-nip17.allowFrom",
       approveHint: formatPairingApproveHint("nostr-nip17"),
-      normalizeEntry: (raw) => {
-        try { return normalizePubkey(raw.replace(/^nostr:/i, "").trim()); } catch { return raw.trim(); }
-      },
+      // Aliases and NIP-05 identifiers resolve through the pinned cache;
+      // an unresolved or flagged one stays as-is and matches nobody.
+      normalizeEntry: (raw) => resolveContactSync(account.config, raw) ?? raw.trim(),
     }),
   },
 
   messaging: {
     normalizeTarget: (target) => {
       const cleaned = target.replace(/^nostr:/i, "").trim();
-      try { return normalizePubkey(cleaned); } catch { return cleaned; }
+      // Not-yet-resolved NIP-05 identifiers pass through; sendText resolves them
+      return resolveContactSync(defaultAccountConfig(), cleaned) ?? cleaned;
     },
     targetResolver: {
       looksLikeId: (input) => {
-        const t = input.trim();
-        return t.startsWith("npub1") || /^[0-9a-fA-F]{64}$/.test(t);
+        const t = input.replace(/^nostr:/i, "").trim();
+        return t.startsWith("npub1")
+          || /^[0-9a-fA-F]{64}$/.test(t)
+          || isNip05Identifier(t)
+          || isContactAlias(defaultAccountConfig(), t);
       },
-      hint: "<npub|hex pubkey|nostr:npub...>",
+      hint: "<npub|hex pubkey|nostr:npub...|name@domain|contact alias>",
     },
   },
 
@@ -150,34 +516,52 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
         accountId: aid,
       });
       const message = core.channel.text.convertMarkdownTables(text ?? "", tableMode);
-      const normalizedTo = normalizePubkey(to);
-      await bus.sendDm(normalizedTo, message);
+      const account = resolveNip17Account({ cfg: core.config.loadConfig(), accountId: aid });
+      const normalizedTo = await resolveContact(account.config, to);
+      const rumorId = await bus.sendDm(normalizedTo, message);
       return {
         channel: "nostr-nip17" as const,
         to: normalizedTo,
-        messageId: `nostr-nip17-${Date.now()}`,
+        messageId: rumorId,
       };
     },
-    sendMedia: async ({ to, text, accountId }) => {
-      // Nostr NIP-17 doesn't support media attachments natively;
-      // send caption/text only as a fallback
+    sendMedia: async ({ to, text, mediaUrl, accountId }) => {
+      // Media goes out as a NIP-17 kind 15 file message (AES-GCM encrypted,
+      // hosted on Blossom); the caption follows as a regular kind 14.
       const aid = accountId ?? DEFAULT_ACCOUNT_ID;
       const bus = await ensureActiveBus(aid);
-      const normalizedTo = normalizePubkey(to);
+      const account = resolveNip17Account({ cfg: getNip17Runtime().config.loadConfig(), accountId: aid });
+      const normalizedTo = await resolveContact(account.config, to);
+      let messageId: string | undefined;
+      if (mediaUrl) {
+        const file = await loadOutboundFile(mediaUrl, { ...DEFAULT_MEDIA_LIMITS, ...account.config.media });
+        messageId = await bus.sendFile(normalizedTo, file);
+      }
       if (text?.trim()) {
-        await bus.sendDm(normalizedTo, text);
+        messageId = await bus.sendDm(normalizedTo, text);
       }
       return {
         channel: "nostr-nip17" as const,
         to: normalizedTo,
-        messageId: `nostr-nip17-${Date.now()}`,
+        messageId: messageId ?? `nostr-nip17-${Date.now()}`,
       };
     },
   },
 
   status: {
     defaultRuntime: createDefaultChannelRuntimeState(DEFAULT_ACCOUNT_ID),
-    collectStatusIssues: (accounts) => collectStatusIssuesFromLastError("nostr-nip17", accounts),
+    collectStatusIssues: (accounts) => [
+      ...collectStatusIssuesFromLastError("nostr-nip17", accounts),
+      ...accounts.flatMap((account: any) => relayStatusIssues(account)),
+      ...accounts.flatMap((account: any) =>
+        (account.flaggedNip05 ?? []).map((identifier: string) => ({
+          channel: "nostr-nip17",
+          accountId: account.accountId,
+          kind: "config",
+          message: `NIP-05 ${identifier} now points at a different key than the one pinned; it is ignored until re-pinned`,
+        })),
+      ),
+    ],
     buildChannelSummary: ({ snapshot }) => ({
       configured: snapshot.configured ?? false,
       publicKey: snapshot.publicKey ?? null,
@@ -185,6 +569,10 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
       lastStartAt: snapshot.lastStartAt ?? null,
       lastStopAt: snapshot.lastStopAt ?? null,
       lastError: snapshot.lastError ?? null,
+      relaysConnected: (snapshot.relays ?? []).filter((r: Nip17RelayStatus) => r.connected).length,
+      relaysTotal: (snapshot.relays ?? []).length,
+      outboxPending: snapshot.outboxPending ?? 0,
+      outboxFailed: snapshot.outboxFailed ?? 0,
     }),
     buildAccountSnapshot: ({ account, runtime }) => ({
       accountId: account.accountId,
@@ -195,9 +583,15 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
       running: runtime?.running ?? false,
       lastStartAt: runtime?.lastStartAt ?? null,
       lastStopAt: runtime?.lastStopAt ?? null,
-      lastError: runtime?.lastError ?? null,
+      lastError: runtime?.lastError ?? account.privateKeyError ?? null,
       lastInboundAt: runtime?.lastInboundAt ?? null,
       lastOutboundAt: runtime?.lastOutboundAt ?? null,
+      relays: activeBuses.get(account.accountId)?.getRelayStatus() ?? [],
+      outboxPending: activeBuses.get(account.accountId)?.getOutboxStatus().pending ?? 0,
+      outboxFailed: activeBuses.get(account.accountId)?.getOutboxStatus().failed ?? 0,
+      flaggedNip05: flaggedNip05ForAccount(account.config).map((pin) => pin.identifier),
+      antiSpam: activeBuses.get(account.accountId)?.getAntiSpamStatus(),
+      webOfTrust: summarizeWebOfTrust(activeBuses.get(account.accountId)?.getWebOfTrust() ?? null),
     }),
   },
 
@@ -210,18 +604,225 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
       });
       ctx.log?.info(`[${account.accountId}] Starting NIP-17 provider (pubkey: ${account.publicKey})`);
 
-      if (!account.configured) throw new Error("NIP-17 private key not configured");
+      if (!account.configured) throw new Error("NIP-17 private key or signer not configured");
+      if (account.privateKeyError) throw new Error(account.privateKeyError);
 
       const runtime = getNip17Runtime();
 
-      const bus = await startNip17Bus({
+      let webOfTrust: { owner: string; depth?: number; refreshMinutes?: number } | undefined;
+      if (account.config.dmPolicy === "follows") {
+        if (!account.config.webOfTrust?.owner) throw new Error('dmPolicy "follows" requires webOfTrust.owner');
+        webOfTrust = {
+          ...account.config.webOfTrust,
+          owner: await resolveContact(account.config, account.config.webOfTrust.owner),
+        };
+      }
+
+      // Decrypted attachments are private files; sweep them by age, total
+      // size and NIP-40 expiration for as long as the account runs.
+      const mediaSweeper = startMediaSweeper(
+        account.accountId,
+        { ...DEFAULT_MEDIA_RETENTION, ...account.config.mediaRetention },
+        (error, context) => ctx.log?.warn?.(`[${account.accountId}] NIP-17 ${context} failed: ${error.message}`),
+        ({ removed, freedBytes }) => ctx.log?.info?.(`[${account.accountId}] Removed ${removed} expired attachment folder(s), ${freedBytes} bytes`),
+      );
+
+      // Pairing over Nostr: unknown senders' requests go to the owners, who
+      // decide by replying to (or reacting on) the notice
+      const ownerPubkeys = await Promise.all(
+        (account.config.ownerPubkeys ?? []).map((owner) => resolveContact(account.config, owner)),
+      );
+      const pairingBook = account.config.dmPolicy === "pairing" && ownerPubkeys.length > 0
+        ? await openPairingBook({
+            accountId: account.accountId,
+            onError: (error, context) => ctx.log?.warn?.(`[${account.accountId}] NIP-17 ${context} failed: ${error.message}`),
+          })
+        : undefined;
+      if (pairingBook) pairingBooks.set(account.accountId, pairingBook);
+      const pairingMessages = { ...DEFAULT_PAIRING_MESSAGES, ...account.config.pairingMessages };
+
+      // Already allowed to talk to the agent: config allowFrom, the owners,
+      // owner approvals, and approvals made with `openclaw pairing approve`
+      const isPairedSender = async (senderPubkey: string): Promise<boolean> => {
+        if (ownerPubkeys.includes(senderPubkey) || pairingBook?.status(senderPubkey) === "approved") return true;
+        const configured = (account.config.allowFrom ?? []).some((entry) => {
+          const e = String(entry).replace(/^nostr:/i, "").trim();
+          return e === "*" || resolveContactSync(account.config, e) === senderPubkey;
+        });
+        if (configured) return true;
+        try {
+          const stored: string[] = await runtime.channel.pairing.readAllowFromStore("nostr-nip17");
+          return stored.some((entry) => resolveContactSync(account.config, entry) === senderPubkey);
+        } catch {
+          return false;
+        }
+      };
+
+      // What the DM policy does with a sender's messages. Dropped senders get
+      // no profile lookup, and only accepted ones reach a session.
+      const senderStanding = async (
+        senderPubkey: string,
+        meta: Pick<Nip17InboundMeta, "chatType">,
+      ): Promise<SenderStanding> => {
+        if (meta.chatType === "group") return isGroupSenderAllowed(account, senderPubkey) ? "accepted" : "dropped";
+        switch (account.config.dmPolicy ?? "pairing") {
+          case "disabled":
+            return "dropped";
+          case "follows":
+            return isFollowsSenderAllowed(account, senderPubkey) ? "accepted" : "dropped";
+          case "allowlist":
+            return (await isPairedSender(senderPubkey)) ? "accepted" : "dropped";
+          case "pairing":
+            if (await isPairedSender(senderPubkey)) return "accepted";
+            // Without owners the framework runs pairing; with them a new
+            // sender's first message becomes the request
+            if (!pairingBook) return "pairing";
+            return pairingBook.status(senderPubkey) === "unknown" ? "pairing" : "dropped";
+          default:
+            return "accepted";
+        }
+      };
+
+      const forwardPairingRequest = async (
+        senderPubkey: string,
+        text: string,
+        meta: Nip17InboundMeta,
+        replyFn: (text: string) => Promise<void>,
+      ): Promise<void> => {
+        const name = meta.sender?.displayName ?? meta.sender?.name;
+        let code: string | undefined;
+        try {
+          // Also registered with the framework, so `openclaw pairing list`
+          // and `approve` keep working
+          ({ code } = await runtime.channel.pairing.upsertPairingRequest({
+            channel: "nostr-nip17",
+            id: senderPubkey,
+            meta: { name },
+          }));
+        } catch (err) {
+          ctx.log?.warn?.(`[${account.accountId}] Could not register pairing request for ${senderPubkey}: ${(err as Error).message}`);
+        }
+        const request = pairingBook!.add({ requester: senderPubkey, name, firstMessage: text, code });
+        ctx.log?.info(`[${account.accountId}] Pairing request from ${senderLabel(meta.sender, senderPubkey)} [${senderPubkey}] forwarded to ${ownerPubkeys.length} owner(s)`);
+        await replyFn(formatPairingMessage(pairingMessages.pending, { name, npub: pubkeyToNpub(senderPubkey), code }));
+        for (const owner of ownerPubkeys) {
+          try {
+            pairingBook!.addNotice(senderPubkey, await bus.sendDm(owner, formatOwnerNotice(request)));
+          } catch (err) {
+            ctx.log?.error?.(`[${account.accountId}] Pairing notice to owner ${owner} failed: ${(err as Error).message}`);
+          }
+        }
+      };
+
+      const decidePairing = async (request: PairingRequest, decision: OwnerDecision, ownerPubkey: string): Promise<void> => {
+        pairingBook!.decide(request.requester, decision);
+        const npub = pubkeyToNpub(request.requester);
+        const who = request.name ? `${request.name} (${npub})` : npub;
+        ctx.log?.info(`[${account.accountId}] Owner ${ownerPubkey} ${decision === "approve" ? "approved" : "denied"} pairing for ${request.requester}`);
+        const template = decision === "approve" ? pairingMessages.approved : pairingMessages.denied;
+        await bus.sendDm(request.requester, formatPairingMessage(template, { name: request.name, npub, code: request.code }))
+          .catch((err) => ctx.log?.error?.(`[${account.accountId}] Pairing ${decision} message to ${request.requester} failed: ${(err as Error).message}`));
+        await bus.sendDm(ownerPubkey, `${decision === "approve" ? "Approved" : "Denied"} ${who}.`)
+          .catch((err) => ctx.log?.error?.(`[${account.accountId}] Pairing confirmation to ${ownerPubkey} failed: ${(err as Error).message}`));
+      };
+
+      // Subscribe on the publisher an earlier outbound send started, if any:
+      // one pool per account, and its outbox keeps retrying under this bus
+      const publisher = await sendOnlyPublishers.get(account.accountId)?.catch(() => undefined);
+
+      const busStart = startNip17Bus({
+        publisher,
         accountId: account.accountId,
         privateKey: account.privateKey,
+        bunker: account.signer,
         relays: account.relays,
-        onMessage: async (senderPubkey, text, replyFn, media, reactFn) => {
+        blossomServers: account.config.blossomServers,
+        publishServerList: account.config.publishServerList,
+        profile: account.profile,
+        outboxDeadlineMinutes: account.config.outboxDeadlineMinutes,
+        archive: account.config.archive,
+        antiSpam: account.config.antiSpam,
+        isKnownSender: (pubkey) => isKnownSender(account, pubkey),
+        senderStanding,
+        // Pairing notices outlive the sent record; an owner can react days later
+        isOwnRumor: (id) => pairingBook?.find({ noticeId: id }) !== undefined,
+        webOfTrust,
+        media: account.config.media,
+        messageTtl: (recipients) => resolveMessageTtl(account, recipients),
+        inheritMessageTtl: account.config.inheritMessageTtl,
+        onMessage: async (senderPubkey, text, replyFn, media, reactFn, replyFileFn, meta) => {
           const hasMedia = media && media.length > 0;
           const mediaDesc = hasMedia ? ` with ${media.length} media attachment(s)` : "";
-          ctx.log?.info(`[${account.accountId}] NIP-17 DM from ${senderPubkey}${mediaDesc}: ${text.slice(0, 50)}...`);
+          const isGroup = meta.chatType === "group";
+          const roomDesc = isGroup ? ` in group ${meta.conversationId} (${meta.participants.length} participants)` : "";
+          const subjectDesc = meta.subject ? ` [subject: ${meta.subject}]` : "";
+          ctx.log?.info(`[${account.accountId}] NIP-17 DM from ${senderLabel(meta.sender, senderPubkey)} [${senderPubkey}]${roomDesc}${subjectDesc}${mediaDesc}: ${text.slice(0, 50)}...`);
+
+          if (isGroup && !isGroupSenderAllowed(account, senderPubkey)) {
+            ctx.log?.warn?.(`[${account.accountId}] Dropping group message from ${senderPubkey}: not in groupAllowFrom`);
+            await mediaSweeper.discard(media);
+            return;
+          }
+          if (!isGroup && account.config.dmPolicy === "follows" && !isFollowsSenderAllowed(account, senderPubkey)) {
+            ctx.log?.warn?.(`[${account.accountId}] Dropping DM from ${senderPubkey}: outside the owner's web of trust`);
+            await mediaSweeper.discard(media);
+            return;
+          }
+
+          if (pairingBook && !isGroup) {
+            const ownerDecision = ownerPubkeys.includes(senderPubkey) ? parseOwnerDecision(text) : null;
+            if (ownerDecision) {
+              // A reply to a notice names its request; otherwise the owner
+              // names the requester, or there is exactly one pending
+              const target = ownerDecision.target
+                ? resolveContactSync(account.config, ownerDecision.target) ?? ownerDecision.target
+                : undefined;
+              const pending = pairingBook.pending();
+              const request = pairingBook.find({ noticeId: meta.replyTo?.id, target })
+                ?? (!target && pending.length === 1 ? pending[0] : undefined);
+              if (request) {
+                await decidePairing(request, ownerDecision.decision, senderPubkey);
+              } else {
+                const list = pending.map((r) => `- ${r.name ? `${r.name} ` : ""}${pubkeyToNpub(r.requester)}`).join("\n");
+                await replyFn(pending.length === 0
+                  ? "There are no pending pairing requests."
+                  : `Which request? Reply to its notice, or add the npub:\n${list}`);
+              }
+              await mediaSweeper.discard(media);
+              return;
+            }
+            if (!(await isPairedSender(senderPubkey))) {
+              const status = pairingBook.status(senderPubkey);
+              if (status === "unknown") {
+                await forwardPairingRequest(senderPubkey, text, meta, replyFn);
+              } else {
+                ctx.log?.info(`[${account.accountId}] Ignoring DM from ${senderPubkey}: pairing ${status}`);
+              }
+              await mediaSweeper.discard(media);
+              return;
+            }
+          }
+
+          if (isOperatorPaused(account.accountId, meta.conversationId)) {
+            // An operator has this conversation; keep the message in the
+            // session for context but don't start a run.
+            ctx.log?.info(`[${account.accountId}] Agent paused for ${meta.conversationId} (operator takeover); not replying`);
+            const { sessionKey } = resolveConversationSession(runtime, runtime.config.loadConfig(), account, senderPubkey, meta);
+            runtime.system.enqueueSystemEvent(
+              `Nostr message from nostr:${senderPubkey} while a human operator is handling this conversation: "${text}"`,
+              { sessionKey, contextKey: `nostr-nip17:paused:${meta.rumorId}` },
+            );
+            await mediaSweeper.discard(media);
+            return;
+          }
+
+          const commandAuthorized = isCommandAuthorized(account, senderPubkey);
+          if (!commandAuthorized && SLASH_COMMAND.test(text.trim())) {
+            ctx.log?.warn?.(`[${account.accountId}] Refusing command "${text.trim().split(/\s/)[0]}" from ${senderPubkey}: not in commandAllowFrom`);
+            await replyFn(COMMAND_REFUSAL);
+            await mediaSweeper.discard(media);
+            return;
+          }
 
           // One helper for every reaction call site (receipt + onReplyStart +
           // event-driven). reactFn already reports failures via onError.
@@ -235,13 +836,8 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
 
           const cfg = runtime.config.loadConfig();
 
-          // Resolve agent route for this channel
-          const route = runtime.channel.routing.resolveAgentRoute({
-            cfg,
-            channel: "nostr-nip17",
-            accountId: account.accountId,
-            peer: { kind: "direct", id: senderPubkey },
-          });
+          // Resolve agent route + session for this conversation
+          const { route, sessionKey } = resolveConversationSession(runtime, cfg, account, senderPubkey, meta);
 
           // Build inbound context with media attachments
           let enhancedBody = text;
@@ -249,77 +845,64 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
           const mediaTypes: string[] = [];
           const attachments: any[] = [];
           
+          if (hasMedia && meta.expiresAt !== undefined) {
+            mediaSweeper.scheduleExpiry(path.dirname(media[0].path), meta.expiresAt);
+          }
           if (hasMedia) {
-            // Save to ~/.openclaw/media/nostr-nip17/ which is in the framework's
-            // allowed localRoots (assertLocalMediaAllowed whitelist).
-            // Using os.tmpdir() siblings like "openclaw-media-nostr-nip17" fails
-            // because only the preferred OpenClaw tmp dir (openclaw-<uid>) is whitelisted.
-            const stateDir = process.env.OPENCLAW_STATE_DIR || path.join(os.homedir(), ".openclaw");
-            const tempDir = path.join(stateDir, "media", "nostr-nip17", Date.now().toString());
-            fs.mkdirSync(tempDir, { recursive: true });
-            
-            for (let idx = 0; idx < media.length; idx++) {
-              const m = media[idx];
-              const extension = m.mimeType ? `.${m.mimeType.split("/")[1]}` : "";
-              const name = `attachment-${idx + 1}${extension}`;
-              const base64Content = m.dataUrl.includes(",") 
-                ? m.dataUrl.split(",")[1] 
-                : m.dataUrl;
-              
-              ctx.log?.info?.(`[${account.accountId}] Attachment ${idx + 1}: name=${name}, mimeType=${m.mimeType}, size=${base64Content.length} base64 chars`);
-              
-              // For text files, decode and include in body directly
-              if (m.mimeType?.startsWith("text/")) {
+            // The bus has already decrypted each attachment into the OpenClaw
+            // media root (see media-store.ts); only paths travel from here.
+            const maxInlineTextBytes = account.config.media?.maxInlineTextBytes ?? DEFAULT_MEDIA_LIMITS.maxInlineTextBytes;
+            for (const [idx, m] of media.entries()) {
+              const name = path.basename(m.path);
+              const origin = m.originalName ? `, original name ${m.originalName}` : "";
+              ctx.log?.info?.(`[${account.accountId}] Attachment ${idx + 1}: ${m.path} (${m.mimeType ?? "unknown type"}, ${m.size} bytes, sha256 ${m.sha256}${origin})`);
+
+              // For text files, include the content in the body directly —
+              // unless too large for the prompt, then attach like any other file
+              if (m.mimeType?.startsWith("text/") && m.size <= maxInlineTextBytes) {
                 try {
-                  const decoded = Buffer.from(base64Content, "base64").toString("utf8");
-                  enhancedBody += `\n\n[File: ${name}]\n${decoded}\n[End of file]`;
+                  const decoded = fs.readFileSync(m.path, "utf8");
+                  enhancedBody += `\n\n[File: ${m.originalName ?? name}]\n${decoded}\n[End of file]`;
                   ctx.log?.info?.(`[${account.accountId}] Included text file content in body: ${decoded.length} chars`);
                 } catch (err) {
-                  ctx.log?.error?.(`[${account.accountId}] Failed to decode text attachment: ${err}`);
-                }
-              } else if (m.mimeType?.startsWith("image/")) {
-                // For images, save to temp file for MediaPaths (OpenClaw handles the vision API conversion)
-                const filePath = path.join(tempDir, name);
-                try {
-                  const buffer = Buffer.from(base64Content, "base64");
-                  fs.writeFileSync(filePath, buffer);
-                  mediaPaths.push(filePath);
-                  if (m.mimeType) {
-                    mediaTypes.push(m.mimeType);
-                  }
-                  ctx.log?.info?.(`[${account.accountId}] Saved image ${name} to ${filePath} for vision API (${buffer.length} bytes)`);
-                } catch (err) {
-                  ctx.log?.error?.(`[${account.accountId}] Failed to save image: ${err}`);
+                  ctx.log?.error?.(`[${account.accountId}] Failed to read text attachment: ${err}`);
                 }
               } else {
-                // For other files (PDF, etc.), save to temp file and pass path
-                const filePath = path.join(tempDir, name);
-                try {
-                  const buffer = Buffer.from(base64Content, "base64");
-                  fs.writeFileSync(filePath, buffer);
-                  mediaPaths.push(filePath);
-                  if (m.mimeType) {
-                    mediaTypes.push(m.mimeType);
-                  }
-                  ctx.log?.info?.(`[${account.accountId}] Saved ${name} to ${filePath} (${buffer.length} bytes)`);
-                } catch (err) {
-                  ctx.log?.error?.(`[${account.accountId}] Failed to save attachment: ${err}`);
-                }
+                // Images go to the vision API, everything else (PDF, etc.) is
+                // passed by path; OpenClaw handles the conversion
+                mediaPaths.push(m.path);
+                mediaTypes.push(m.mimeType ?? DEFAULT_MIME_TYPE);
               }
             }
           }
+
+          // Tell the agent about attachments it isn't getting, so it can say so
+          for (const rejection of meta.mediaRejections ?? []) {
+            enhancedBody += `\n\n[Attachment not delivered: ${rejection.url} — ${rejection.reason}]`;
+          }
             
           const ctxPayload = runtime.channel.reply.finalizeInboundContext({
             Body: enhancedBody,
             RawBody: text,
             CommandBody: enhancedBody,
-            From: `nostr:${senderPubkey}`,
-            To: senderPubkey,
+            From: isGroup ? `nostr:group:${meta.conversationId}` : `nostr:${senderPubkey}`,
+            To: isGroup ? meta.conversationId : senderPubkey,
             SenderId: senderPubkey,
-            SessionKey: route.sessionKey,
+            SenderName: meta.sender?.displayName ?? meta.sender?.name,
+            // Only a verified NIP-05 is a username; an unverified one is just a claim
+            SenderUsername: meta.sender?.nip05Status === "verified" ? meta.sender.nip05 : undefined,
+            SenderNip05: meta.sender?.nip05,
+            SenderNip05Status: meta.sender?.nip05Status,
+            MessageSid: meta.rumorId,
+            ReplyToId: meta.replyTo?.id,
+            ReplyToBody: meta.replyTo?.content,
+            ReplyToSender: meta.replyTo?.author ? `nostr:${meta.replyTo.author}` : undefined,
+            SessionKey: sessionKey,
             AccountId: account.accountId,
-            ChatType: "direct",
-            CommandAuthorized: true,
+            ChatType: meta.chatType,
+            GroupMembers: isGroup ? meta.participants.join(",") : undefined,
+            GroupSubject: meta.subject,
+            CommandAuthorized: commandAuthorized,
             Provider: "nostr-nip17",
             Surface: "nostr-nip17",
             OriginatingChannel: "nostr-nip17",
@@ -340,30 +923,104 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
           // dispatcherOptions: delivery + typing-side hooks (onReplyStart lives here).
           // replyOptions: agent-lifecycle hooks (tool/plan/compaction) and onModelSelected,
           // which the prefix template needs to interpolate {{model}} post-fallback.
-          await runtime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
-            ctx: ctxPayload,
-            cfg,
-            dispatcherOptions: {
-              ...prefixOptions,
-              onReplyStart: () => fireReaction(pickThinking()),
-              deliver: async (payload: { text?: string; mediaPath?: string }) => {
-                const responseText = payload.text ?? "";
-                if (responseText.trim()) {
-                  await replyFn(responseText);
-                  ctx.log?.info(`[${account.accountId}] NIP-17 reply sent to ${senderPubkey}`);
-                }
+          try {
+            await runtime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+              ctx: ctxPayload,
+              cfg,
+              dispatcherOptions: {
+                ...prefixOptions,
+                onReplyStart: () => fireReaction(pickThinking()),
+                deliver: async (payload: { text?: string; mediaPath?: string; mediaUrl?: string }) => {
+                  const mediaSource = payload.mediaPath ?? payload.mediaUrl;
+                  if (mediaSource) {
+                    const file = await loadOutboundFile(mediaSource, { ...DEFAULT_MEDIA_LIMITS, ...account.config.media });
+                    await replyFileFn(file);
+                    ctx.log?.info(`[${account.accountId}] NIP-17 file reply sent to ${senderPubkey} (${file.mimeType}, ${file.data.length} bytes)`);
+                  }
+                  const responseText = payload.text ?? "";
+                  if (responseText.trim()) {
+                    await replyFn(responseText);
+                    ctx.log?.info(`[${account.accountId}] NIP-17 reply sent to ${isGroup ? `group ${meta.conversationId}` : senderPubkey}`);
+                  }
+                },
+                onError: (err: unknown) => {
+                  ctx.log?.error?.(`[${account.accountId}] NIP-17 reply error: ${String(err)}`);
+                },
               },
-              onError: (err: unknown) => {
-                ctx.log?.error?.(`[${account.accountId}] NIP-17 reply error: ${String(err)}`);
+              replyOptions: {
+                onModelSelected,
+                onToolStart: () => fireReaction(EVENT_EMOJI.toolStart),
+                onPlanUpdate: () => fireReaction(EVENT_EMOJI.planUpdate),
+                onCompactionStart: () => fireReaction(EVENT_EMOJI.compactionStart),
               },
-            },
-            replyOptions: {
-              onModelSelected,
-              onToolStart: () => fireReaction(EVENT_EMOJI.toolStart),
-              onPlanUpdate: () => fireReaction(EVENT_EMOJI.planUpdate),
-              onCompactionStart: () => fireReaction(EVENT_EMOJI.compactionStart),
-            },
+            });
+          } finally {
+            // deleteAfterRun: the run is done with the files
+            await mediaSweeper.release(media);
+          }
+        },
+        onReaction: async (senderPubkey, emoji, target, meta) => {
+          ctx.log?.info(`[${account.accountId}] NIP-17 reaction ${emoji} from ${senderPubkey} on ${target.id}`);
+
+          // ✅ / ❌ from an owner on a pairing notice decides it
+          const ownerDecision = pairingBook && ownerPubkeys.includes(senderPubkey) ? reactionDecision(emoji) : null;
+          const request = ownerDecision ? pairingBook!.find({ noticeId: target.id }) : undefined;
+          if (ownerDecision && request) {
+            await decidePairing(request, ownerDecision, senderPubkey);
+            return;
+          }
+
+          // Reactions don't trigger a run; they land in the session as a
+          // system note so the agent sees 👍/👎 feedback on its next turn.
+          const cfg = runtime.config.loadConfig();
+          const { sessionKey } = resolveConversationSession(runtime, cfg, account, senderPubkey, meta);
+          const quoted = target.content === undefined
+            ? ""
+            : `: "${target.content.length > 200 ? `${target.content.slice(0, 200)}…` : target.content}"`;
+          runtime.system.enqueueSystemEvent(
+            `Nostr reaction ${emoji} from nostr:${senderPubkey} on your message ${target.id}${quoted}`,
+            { sessionKey, contextKey: `nostr-nip17:reaction:${meta.rumorId}` },
+          );
+        },
+        onOperatorMessage: async (text, meta) => {
+          const peerDesc = meta.chatType === "group" ? `group ${meta.conversationId}` : meta.conversationId;
+          ctx.log?.info(`[${account.accountId}] NIP-17 operator message to ${peerDesc}: ${text.slice(0, 50)}...`);
+
+          const pauseMinutes = account.config.operatorPauseMinutes ?? 0;
+          if (pauseMinutes > 0) {
+            operatorPauses.set(`${account.accountId}:${meta.conversationId}`, Date.now() + pauseMinutes * 60 * 1000);
+          }
+
+          const cfg = runtime.config.loadConfig();
+          const { sessionKey } = resolveConversationSession(runtime, cfg, account, meta.participants[0], meta);
+          const pauseNote = pauseMinutes > 0
+            ? ` You are paused in this conversation for ${pauseMinutes} minute(s) after the operator's last message.`
+            : "";
+          runtime.system.enqueueSystemEvent(
+            `A human operator replied in this Nostr conversation on your behalf (sent with your key from another client): "${text}".${pauseNote}`,
+            { sessionKey, contextKey: `nostr-nip17:operator:${meta.rumorId}` },
+          );
+        },
+        onDeliveryFailed: (failure) => {
+          ctx.log?.error?.(`[${account.accountId}] NIP-17 message ${failure.rumorId} to ${failure.recipient} undeliverable: ${failure.lastError ?? "no relay accepted it"}`);
+
+          // Tell the agent in the conversation the message belonged to, so it
+          // doesn't assume the user saw it.
+          const cfg = runtime.config.loadConfig();
+          const isGroup = failure.participants.length > 1;
+          const { sessionKey } = resolveConversationSession(runtime, cfg, account, failure.recipient, {
+            rumorId: failure.rumorId,
+            createdAt: Math.floor(Date.now() / 1000),
+            chatType: isGroup ? "group" : "direct",
+            conversationId: isGroup ? deriveRoomId([...failure.participants, bus.publicKey]) : failure.recipient,
+            participants: failure.participants,
+            subject: failure.subject,
           });
+          const quoted = failure.preview.length >= 200 ? `${failure.preview}…` : failure.preview;
+          runtime.system.enqueueSystemEvent(
+            `Nostr delivery failed: your message ${failure.rumorId} never reached nostr:${failure.recipient} on any relay ("${quoted}")`,
+            { sessionKey, contextKey: `nostr-nip17:delivery-failed:${failure.rumorId}:${failure.recipient}` },
+          );
         },
         onError: (error, context) => {
           ctx.log?.error?.(`[${account.accountId}] NIP-17 error (${context}): ${error.message}`);
@@ -379,8 +1036,44 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
         },
       });
 
+      // Registered before the publisher is released, so there is never a
+      // moment when ensureActiveBus finds neither and opens another pool
+      startingBuses.set(account.accountId, busStart);
+      sendOnlyPublishers.delete(account.accountId);
+      let bus: Nip17BusHandle;
+      try {
+        bus = await busStart;
+      } finally {
+        startingBuses.delete(account.accountId);
+      }
+
       activeBuses.set(account.accountId, bus);
-      ctx.log?.info(`[${account.accountId}] NIP-17 provider started on ${account.relays.length} relay(s)`);
+      if (bus.publicKey !== account.publicKey) {
+        // Remote-signer accounts only learn their pubkey once the bunker answers
+        ctx.setStatus({ accountId: account.accountId, publicKey: bus.publicKey });
+      }
+      ctx.log?.info(`[${account.accountId}] NIP-17 provider started on ${account.relays.length} relay(s) (pubkey: ${bus.publicKey})`);
+
+      if (account.config.historySync?.enabled) {
+        runHistorySync(runtime, account, bus, senderStanding, ctx.log).catch((err) => {
+          ctx.log?.error?.(`[${account.accountId}] NIP-17 history sync failed: ${(err as Error).message}`);
+        });
+      }
+
+      // Pin and periodically re-check NIP-05 identifiers used in contacts and
+      // allowlists, so a domain re-pointing one is noticed.
+      const reverifyNip05 = () => {
+        reverifyNip05Identifiers(collectNip05Identifiers(account.config), (error, context) => {
+          ctx.log?.warn?.(`[${account.accountId}] NIP-05 check failed (${context}): ${error.message}`);
+        }).then((flagged) => {
+          for (const pin of flagged) {
+            ctx.log?.error?.(`[${account.accountId}] NIP-05 ${pin.identifier} changed from ${pin.pubkey} to ${pin.observedPubkey ?? "nothing"}; no longer trusted`);
+          }
+        }).catch((err) => ctx.log?.error?.(`[${account.accountId}] NIP-05 re-verification failed: ${(err as Error).message}`));
+      };
+      reverifyNip05();
+      const nip05Timer = setInterval(reverifyNip05, NIP05_REVERIFY_INTERVAL_MS);
+      nip05Timer.unref?.();
 
       // Return a promise that stays pending until abort signal fires.
       // This keeps the channel "alive" from the framework's perspective.
@@ -388,6 +1081,12 @@ export const nip17Plugin: ChannelPlugin<ResolvedNip17Account> = {
       // and triggers the auto-restart loop.
       return new Promise<{ stop: () => void }>((resolve) => {
         const abortHandler = () => {
+          clearInterval(nip05Timer);
+          mediaSweeper.stop();
+          if (pairingBook) {
+            pairingBooks.delete(account.accountId);
+            void pairingBook.close();
+          }
           bus.close();
           activeBuses.delete(account.accountId);
           ctx.log?.info(`[${account.accountId}] NIP-17 provider stopped`);
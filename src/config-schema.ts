@@ -2,15 +2,100 @@ import { z } from "zod";
 
 const allowFromEntry = z.union([z.string(), z.number()]);
 
+/** Kind:0 profile published for the account (NIP-01 / NIP-24 fields). */
+const profileSchema = z.object({
+  name: z.string().optional(),
+  display_name: z.string().optional(),
+  about: z.string().optional(),
+  picture: z.string().optional(),
+  banner: z.string().optional(),
+  website: z.string().optional(),
+  nip05: z.string().optional(),
+  lud16: z.string().optional(),
+  bot: z.boolean().optional(),
+});
+
+/** One-time backfill of conversation history from relays (self-addressed wraps). */
+const historySyncSchema = z.object({
+  enabled: z.boolean().optional(),
+  days: z.number().positive().optional(),
+  seedSessions: z.boolean().optional(),
+  exportDir: z.string().optional(),
+});
+
+/** Web of trust behind `dmPolicy: "follows"`. */
+const webOfTrustSchema = z.object({
+  owner: z.string(),
+  depth: z.number().int().min(1).max(3).optional(),
+  refreshMinutes: z.number().positive().optional(),
+});
+
+/** Limits on fetching inbound attachments (see DEFAULT_MEDIA_LIMITS). */
+const mediaSchema = z.object({
+  maxBytes: z.number().int().positive().optional(),
+  maxAttachments: z.number().int().nonnegative().optional(),
+  allowedMimeTypes: z.array(z.string()).optional(),
+  fetchTimeoutSeconds: z.number().positive().optional(),
+  maxInlineTextBytes: z.number().int().nonnegative().optional(),
+  allowPrivateNetwork: z.boolean().optional(),
+});
+
+/** Retention of decrypted inbound attachments (see DEFAULT_MEDIA_RETENTION). */
+const mediaRetentionSchema = z.object({
+  maxAgeHours: z.number().positive().optional(),
+  maxTotalMB: z.number().positive().optional(),
+  deleteAfterRun: z.boolean().optional(),
+  sweepIntervalMinutes: z.number().positive().optional(),
+});
+
+/** Per-account texts for pairing over Nostr (see DEFAULT_PAIRING_MESSAGES). */
+const pairingMessagesSchema = z.object({
+  pending: z.string().optional(),
+  approved: z.string().optional(),
+  denied: z.string().optional(),
+});
+
+/** Inbound anti-spam gate; every field is optional and unset fields don't gate. */
+const antiSpamSchema = z.object({
+  minPowDifficulty: z.number().int().nonnegative().optional(),
+  senderRatePerMinute: z.number().positive().optional(),
+  senderBurst: z.number().int().positive().optional(),
+  accountRatePerMinute: z.number().positive().optional(),
+  accountBurst: z.number().int().positive().optional(),
+  maxConcurrentRuns: z.number().int().positive().optional(),
+  autoReply: z.union([z.boolean(), z.string()]).optional(),
+});
+
 /** Per-account config (also doubles as top-level base config). */
 export const Nip17AccountConfigSchema = z.object({
   name: z.string().optional(),
   enabled: z.boolean().optional(),
   privateKey: z.string().optional(),
+  privateKeyPassword: z.string().optional(),
+  signer: z.string().optional(),
   relays: z.array(z.string()).optional(),
-  dmPolicy: z.enum(["pairing", "allowlist", "open", "disabled"]).optional(),
+  dmPolicy: z.enum(["pairing", "allowlist", "open", "disabled", "follows"]).optional(),
+  webOfTrust: webOfTrustSchema.optional(),
   allowFrom: z.array(allowFromEntry).optional(),
   groupAllowFrom: z.array(allowFromEntry).optional(),
+  commandAllowFrom: z.array(allowFromEntry).optional(),
+  ownerPubkeys: z.array(z.string()).optional(),
+  pairingMessages: pairingMessagesSchema.optional(),
+  contacts: z.record(z.string(), z.string()).optional(),
+  blossomServers: z.array(z.string()).optional(),
+  publishServerList: z.boolean().optional(),
+  sessionPerSubject: z.boolean().optional(),
+  outboxDeadlineMinutes: z.number().positive().optional(),
+  archive: z.boolean().optional(),
+  historySync: historySyncSchema.optional(),
+  operatorPauseMinutes: z.number().nonnegative().optional(),
+  antiSpam: antiSpamSchema.optional(),
+  media: mediaSchema.optional(),
+  mediaRetention: mediaRetentionSchema.optional(),
+  messageTtl: z.number().int().nonnegative().optional(),
+  peerMessageTtl: z.record(z.string(), z.number().int().nonnegative()).optional(),
+  inheritMessageTtl: z.boolean().optional(),
+  profile: profileSchema.optional(),
 });
 
 export const Nip17ConfigSchema = Nip17AccountConfigSchema.extend({
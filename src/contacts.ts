@@ -0,0 +1,192 @@
+import { readFileSync } from "node:fs";
+import { writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import type { Nip17AccountConfig } from "./config-schema.js";
+import { normalizePubkey } from "./nip17-bus.js";
+import { fetchNip05Pubkey, isNip05Identifier } from "./nip05.js";
+
+/**
+ * Human-friendly names for peers: per-account `contacts` aliases
+ * (`{"alice": "npub1..."}` or `{"alice": "alice@example.com"}`) and NIP-05
+ * identifiers, accepted anywhere a pubkey is (send targets, allowFrom,
+ * groupAllowFrom, commandAllowFrom, ownerPubkeys).
+ *
+ * A NIP-05 identifier is pinned to the pubkey it first resolved to. It is
+ * re-checked periodically; if the domain starts returning a different key
+ * (or drops the name), the identifier is flagged and stops resolving until
+ * an operator removes its entry from nip05-cache.json — it is never
+ * silently re-pointed.
+ */
+
+const CACHE_DIR = join(homedir(), ".openclaw", "state", "nostr-nip17");
+const CACHE_FILE = join(CACHE_DIR, "nip05-cache.json");
+
+export const NIP05_REVERIFY_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface PinnedNip05 {
+  identifier: string;
+  /** Pubkey the identifier resolved to when first seen */
+  pubkey: string;
+  /**
+   * "changed": the domain now returns a different key (`observedPubkey`) or
+   * none. "unreachable": last check failed; the pin is still trusted.
+   */
+  status: "verified" | "changed" | "unreachable";
+  observedPubkey?: string;
+  pinnedAt: number;
+  checkedAt: number;
+}
+
+let pins: Map<string, PinnedNip05> | null = null;
+
+function loadPins(): Map<string, PinnedNip05> {
+  if (pins) return pins;
+  pins = new Map();
+  try {
+    const data = JSON.parse(readFileSync(CACHE_FILE, "utf-8")) as PinnedNip05[];
+    for (const pin of data) pins.set(pin.identifier, pin);
+  } catch {
+    // No cache yet
+  }
+  return pins;
+}
+
+async function savePins(): Promise<void> {
+  await mkdir(CACHE_DIR, { recursive: true });
+  await writeFile(CACHE_FILE, JSON.stringify([...loadPins().values()], null, 2));
+}
+
+function cleanEntry(input: string): string {
+  return String(input).replace(/^nostr:/i, "").trim();
+}
+
+function lookupAlias(config: Nip17AccountConfig, name: string): string | undefined {
+  const contacts = config.contacts ?? {};
+  const key = Object.keys(contacts).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key ? contacts[key] : undefined;
+}
+
+export function isContactAlias(config: Nip17AccountConfig, input: string): boolean {
+  return lookupAlias(config, cleanEntry(input)) !== undefined;
+}
+
+/**
+ * Resolve a pubkey, alias or NIP-05 identifier using only what is already
+ * known. Returns null for unknown aliases, NIP-05 identifiers that haven't
+ * been resolved yet, and flagged ones.
+ */
+export function resolveContactSync(config: Nip17AccountConfig, input: string): string | null {
+  const cleaned = cleanEntry(input);
+  const value = cleanEntry(lookupAlias(config, cleaned) ?? cleaned);
+  if (isNip05Identifier(value)) {
+    const pin = loadPins().get(value.toLowerCase());
+    return pin && pin.status !== "changed" ? pin.pubkey : null;
+  }
+  try {
+    return normalizePubkey(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a pubkey, alias or NIP-05 identifier, looking up (and pinning)
+ * NIP-05 identifiers seen for the first time. Throws when the input can't be
+ * resolved or the identifier is flagged.
+ */
+export async function resolveContact(config: Nip17AccountConfig, input: string): Promise<string> {
+  const cleaned = cleanEntry(input);
+  const value = cleanEntry(lookupAlias(config, cleaned) ?? cleaned);
+  if (!isNip05Identifier(value)) {
+    try {
+      return normalizePubkey(value);
+    } catch {
+      throw new Error(`Unknown Nostr recipient "${input}": not a pubkey, contact alias or NIP-05 identifier`);
+    }
+  }
+
+  const identifier = value.toLowerCase();
+  const pin = loadPins().get(identifier);
+  if (pin?.status === "changed") {
+    throw new Error(
+      `NIP-05 ${identifier} no longer points at pinned key ${pin.pubkey}` +
+      (pin.observedPubkey ? ` (now ${pin.observedPubkey})` : "") +
+      "; refusing to use it until it is re-pinned",
+    );
+  }
+  if (pin) return pin.pubkey;
+
+  const pubkey = await fetchNip05Pubkey(identifier);
+  if (!pubkey) throw new Error(`NIP-05 ${identifier} is not registered on its domain`);
+  const now = Date.now();
+  loadPins().set(identifier, { identifier, pubkey, status: "verified", pinnedAt: now, checkedAt: now });
+  await savePins();
+  return pubkey;
+}
+
+/**
+ * Every NIP-05 identifier an account refers to, directly or via an alias.
+ */
+export function collectNip05Identifiers(config: Nip17AccountConfig): string[] {
+  const entries = [
+    ...Object.values(config.contacts ?? {}),
+    ...(config.allowFrom ?? []),
+    ...(config.groupAllowFrom ?? []),
+    ...(config.commandAllowFrom ?? []),
+    ...(config.ownerPubkeys ?? []),
+  ].map((e) => cleanEntry(lookupAlias(config, cleanEntry(String(e))) ?? String(e)));
+  return [...new Set(entries.filter(isNip05Identifier).map((e) => e.toLowerCase()))];
+}
+
+/**
+ * Pin unseen identifiers and re-check pinned ones. Returns the identifiers
+ * that became flagged on this pass.
+ */
+export async function reverifyNip05Identifiers(
+  identifiers: string[],
+  onError?: (error: Error, context: string) => void,
+): Promise<PinnedNip05[]> {
+  const flagged: PinnedNip05[] = [];
+  for (const identifier of identifiers) {
+    const pin = loadPins().get(identifier);
+    let observed: string | null;
+    try {
+      observed = await fetchNip05Pubkey(identifier);
+    } catch (err) {
+      onError?.(err as Error, `nip05 ${identifier}`);
+      if (pin && pin.status !== "changed") pin.status = "unreachable";
+      continue;
+    }
+
+    const now = Date.now();
+    if (!pin) {
+      if (observed) {
+        loadPins().set(identifier, { identifier, pubkey: observed, status: "verified", pinnedAt: now, checkedAt: now });
+      }
+      continue;
+    }
+
+    pin.checkedAt = now;
+    if (observed === pin.pubkey) {
+      pin.status = "verified";
+      pin.observedPubkey = undefined;
+    } else {
+      if (pin.status !== "changed") flagged.push(pin);
+      pin.status = "changed";
+      pin.observedPubkey = observed ?? undefined;
+    }
+  }
+  await savePins();
+  return flagged;
+}
+
+/**
+ * Flagged identifiers among those an account refers to, for status issues.
+ */
+export function flaggedNip05ForAccount(config: Nip17AccountConfig): PinnedNip05[] {
+  const pinned = loadPins();
+  return collectNip05Identifiers(config)
+    .map((identifier) => pinned.get(identifier))
+    .filter((pin): pin is PinnedNip05 => pin?.status === "changed");
+}
@@ -0,0 +1,162 @@
+import type { Event, SimplePool } from "nostr-tools";
+import { unwrapGiftWrapWithSigner, type Nip17Rumor, type Nip17Signer } from "./signer.js";
+
+/**
+ * Rebuild conversation history from relays. Every message this account sent
+ * also went out as a self-addressed gift wrap, so querying kind 1059 events
+ * tagged to our own pubkey returns both directions of every conversation.
+ */
+
+export const DEFAULT_HISTORY_SYNC_DAYS = 30;
+
+// NIP-59 wrap timestamps are randomized up to two days into the past
+const WRAP_JITTER_SEC = 2 * 24 * 60 * 60;
+const PAGE_LIMIT = 500;
+const MAX_PAGES = 40;
+
+export interface TranscriptMessage {
+  id: string;
+  pubkey: string;
+  direction: "in" | "out";
+  kind: number;
+  content: string;
+  createdAt: number;
+  subject?: string;
+  replyTo?: string;
+}
+
+export interface Nip17Transcript {
+  /** Peer pubkey for 1:1 DMs, room id for group rooms */
+  conversationId: string;
+  chatType: "direct" | "group";
+  /** Everyone in the conversation except this account */
+  participants: string[];
+  /** Oldest first */
+  messages: TranscriptMessage[];
+}
+
+/**
+ * Page backwards through kind 1059 events addressed to `pubkey` on `relays`
+ * and unwrap every NIP-17 chat/file rumor created in the window.
+ */
+export async function fetchHistoryRumors(
+  pool: SimplePool,
+  signer: Nip17Signer,
+  relays: string[],
+  days: number = DEFAULT_HISTORY_SYNC_DAYS,
+  onError?: (error: Error, context: string) => void,
+): Promise<Nip17Rumor[]> {
+  const windowStart = Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+  const wraps = new Map<string, Event>();
+
+  let until: number | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const batch = await pool.querySync(relays, {
+      kinds: [1059],
+      "#p": [signer.publicKey],
+      since: windowStart - WRAP_JITTER_SEC,
+      ...(until !== undefined ? { until } : {}),
+      limit: PAGE_LIMIT,
+    });
+    let added = 0;
+    for (const event of batch) {
+      if (!wraps.has(event.id)) {
+        wraps.set(event.id, event);
+        added++;
+      }
+    }
+    if (added === 0 || batch.length < PAGE_LIMIT) break;
+    until = Math.min(...batch.map((e) => e.created_at)) - 1;
+  }
+
+  const rumors = new Map<string, Nip17Rumor>();
+  for (const wrap of wraps.values()) {
+    try {
+      const rumor = await unwrapGiftWrapWithSigner(signer, wrap);
+      if (rumor.kind !== 14 && rumor.kind !== 15) continue;
+      if (rumor.created_at < windowStart) continue;
+      rumors.set(rumor.id, rumor);
+    } catch (err) {
+      onError?.(err as Error, `history unwrap ${wrap.id}`);
+    }
+  }
+  return [...rumors.values()];
+}
+
+/**
+ * Group rumors into per-conversation transcripts. A NIP-17 room is the
+ * author plus every `p` tag, so our self-copies land in the same room as the
+ * peer's messages.
+ */
+export function buildTranscripts(
+  rumors: Nip17Rumor[],
+  ownPubkey: string,
+  roomIdFor: (members: string[]) => string,
+): Nip17Transcript[] {
+  const transcripts = new Map<string, Nip17Transcript>();
+
+  for (const rumor of rumors) {
+    const members = new Set<string>([rumor.pubkey]);
+    for (const tag of rumor.tags || []) {
+      if (tag[0] === "p" && tag[1] && /^[0-9a-f]{64}$/i.test(tag[1])) members.add(tag[1].toLowerCase());
+    }
+    const participants = [...members].filter((p) => p !== ownPubkey).sort();
+    if (participants.length === 0) continue;
+
+    const isGroup = participants.length > 1;
+    const conversationId = isGroup ? roomIdFor([...participants, ownPubkey]) : participants[0];
+    let transcript = transcripts.get(conversationId);
+    if (!transcript) {
+      transcript = { conversationId, chatType: isGroup ? "group" : "direct", participants, messages: [] };
+      transcripts.set(conversationId, transcript);
+    }
+
+    const eTags = (rumor.tags || []).filter((t) => t[0] === "e" && t[1]);
+    transcript.messages.push({
+      id: rumor.id,
+      pubkey: rumor.pubkey,
+      direction: rumor.pubkey === ownPubkey ? "out" : "in",
+      kind: rumor.kind,
+      content: rumor.content,
+      createdAt: rumor.created_at,
+      subject: (rumor.tags || []).find((t) => t[0] === "subject")?.[1],
+      replyTo: (eTags.find((t) => t[3] === "reply") ?? eTags[0])?.[1],
+    });
+  }
+
+  for (const transcript of transcripts.values()) {
+    transcript.messages.sort((a, b) => a.createdAt - b.createdAt);
+  }
+  return [...transcripts.values()].sort(
+    (a, b) => (b.messages.at(-1)?.createdAt ?? 0) - (a.messages.at(-1)?.createdAt ?? 0),
+  );
+}
+
+/**
+ * Render a transcript as Markdown, one bullet per message. Kind 15 file
+ * messages show their (encrypted) file URL.
+ */
+export function formatTranscriptMarkdown(transcript: Nip17Transcript, opts: { maxMessages?: number } = {}): string {
+  const messages = opts.maxMessages ? transcript.messages.slice(-opts.maxMessages) : transcript.messages;
+  const title = transcript.chatType === "group"
+    ? `Group ${transcript.conversationId} (${transcript.participants.map((p) => `nostr:${p}`).join(", ")})`
+    : `Conversation with nostr:${transcript.conversationId}`;
+
+  const lines = [`## ${title}`, ""];
+  let subject: string | undefined;
+  for (const m of messages) {
+    if (m.subject && m.subject !== subject) {
+      subject = m.subject;
+      lines.push(`### ${subject}`, "");
+    }
+    const when = new Date(m.createdAt * 1000).toISOString().replace("T", " ").slice(0, 16);
+    const who = m.direction === "out" ? "agent" : `nostr:${m.pubkey}`;
+    const body = m.kind === 15 ? `[file] ${m.content}` : m.content.replace(/\n/g, "\n  ");
+    lines.push(`- **${when} ${who}:** ${body}`);
+  }
+  return lines.join("\n");
+}
+
+export function formatTranscriptJson(transcripts: Nip17Transcript[]): string {
+  return JSON.stringify({ exportedAt: Math.floor(Date.now() / 1000), transcripts }, null, 2);
+}
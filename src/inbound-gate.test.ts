@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createInboundGate } from "./inbound-gate.js";
+
+const alice = "a".repeat(64);
+const bob = "b".repeat(64);
+
+describe("createInboundGate", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("asks unknown senders for proof of work", () => {
+    const gate = createInboundGate({ minPowDifficulty: 8 });
+    expect(gate.admit(alice, 4, false).decision).toBe("pow");
+    expect(gate.admit(alice, 4, true).decision).toBe("accepted");
+    expect(gate.admit(bob, 8, false).decision).toBe("accepted");
+    expect(gate.counts()).toMatchObject({ accepted: 2, pow: 1 });
+  });
+
+  it("refills a sender's bucket over time", () => {
+    const gate = createInboundGate({ senderRatePerMinute: 2 });
+    const admitted = [gate.admit(alice, 0, true), gate.admit(alice, 0, true)];
+    expect(admitted.map((a) => a.decision)).toEqual(["accepted", "accepted"]);
+    expect(gate.admit(alice, 0, true).decision).toBe("sender-rate");
+    // Other senders have buckets of their own
+    expect(gate.admit(bob, 0, true).decision).toBe("accepted");
+
+    vi.advanceTimersByTime(30_000);
+    expect(gate.admit(alice, 0, true).decision).toBe("accepted");
+    expect(gate.admit(alice, 0, true).decision).toBe("sender-rate");
+  });
+
+  it("shares one bucket across the account", () => {
+    const gate = createInboundGate({ accountRatePerMinute: 1, accountBurst: 2 });
+    expect(gate.admit(alice, 0, true).decision).toBe("accepted");
+    expect(gate.admit(bob, 0, true).decision).toBe("accepted");
+    expect(gate.admit(alice, 0, true).decision).toBe("account-rate");
+
+    vi.advanceTimersByTime(60_000);
+    expect(gate.admit(bob, 0, true).decision).toBe("accepted");
+  });
+
+  it("frees a run slot on release, once", () => {
+    const gate = createInboundGate({ maxConcurrentRuns: 1 });
+    const first = gate.admit(alice, 0, true);
+    expect(first.decision).toBe("accepted");
+    expect(gate.admit(bob, 0, true).decision).toBe("concurrency");
+
+    if (first.decision === "accepted") {
+      first.release();
+      first.release();
+    }
+    const second = gate.admit(bob, 0, true);
+    expect(second.decision).toBe("accepted");
+    expect(gate.admit(alice, 0, true).decision).toBe("concurrency");
+  });
+
+  it("caps runs per account, not per process", () => {
+    const first = createInboundGate({ maxConcurrentRuns: 1 });
+    const second = createInboundGate({ maxConcurrentRuns: 1 });
+    expect(first.admit(alice, 0, true).decision).toBe("accepted");
+    expect(second.admit(alice, 0, true).decision).toBe("accepted");
+    expect(first.admit(bob, 0, true).decision).toBe("concurrency");
+  });
+
+  it("auto-replies at most once per window", () => {
+    const gate = createInboundGate({ minPowDifficulty: 8, autoReply: true });
+    expect(gate.autoReplyFor(alice, "pow")).toMatch(/at least 8 bits/);
+    expect(gate.autoReplyFor(alice, "pow")).toBeNull();
+    expect(gate.autoReplyFor(bob, "accepted")).toBeNull();
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    expect(gate.autoReplyFor(alice, "sender-rate")).toMatch(/faster than I can take them/);
+  });
+});
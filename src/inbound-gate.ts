@@ -0,0 +1,139 @@
+/**
+ * Inbound anti-spam gate: NIP-13 proof-of-work for unknown senders,
+ * token-bucket rate limits per sender and per account, and a cap on agent
+ * runs in flight. Every decision is counted so thresholds can be tuned from
+ * status output.
+ */
+
+export interface AntiSpamOptions {
+  /** Minimum NIP-13 difficulty (leading zero bits of the seal or rumor id) for unknown senders. */
+  minPowDifficulty?: number;
+  /** Sustained messages per minute per sender; burst defaults to the same number. */
+  senderRatePerMinute?: number;
+  senderBurst?: number;
+  /** Sustained messages per minute across all senders of the account. */
+  accountRatePerMinute?: number;
+  accountBurst?: number;
+  /** Agent runs in flight for the account. */
+  maxConcurrentRuns?: number;
+  /** Tell the sender why their message was dropped; a string replaces the default text. */
+  autoReply?: boolean | string;
+}
+
+export type GateDecision = "accepted" | "pow" | "sender-rate" | "account-rate" | "concurrency";
+
+export type AntiSpamCounts = Record<GateDecision, number>;
+
+// At most one auto-reply per sender per window, so the gate can't be used
+// to make the bot spam someone back.
+const AUTO_REPLY_WINDOW_MS = 10 * 60 * 1000;
+const MAX_TRACKED_SENDERS = 10_000;
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+function takeToken(bucket: TokenBucket, perMinute: number, burst: number, now: number): boolean {
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 60_000) * perMinute);
+  bucket.updatedAt = now;
+  if (bucket.tokens < 1) return false;
+  bucket.tokens -= 1;
+  return true;
+}
+
+function defaultAutoReplyText(decision: GateDecision, opts: AntiSpamOptions): string {
+  switch (decision) {
+    case "pow":
+      return `Messages from new contacts need NIP-13 proof of work of at least ${opts.minPowDifficulty} bits. Your message was not delivered to the agent.`;
+    case "concurrency":
+      return "I'm busy with other conversations right now. Please try again in a few minutes.";
+    default:
+      return "You're sending messages faster than I can take them. Please wait a minute and try again.";
+  }
+}
+
+export interface InboundGate {
+  /**
+   * Decide whether a message may start an agent run. On "accepted" the run
+   * slot is taken; call the returned release once the run finishes.
+   */
+  admit: (senderPubkey: string, powDifficulty: number, knownSender: boolean) =>
+    { decision: "accepted"; release: () => void } | { decision: Exclude<GateDecision, "accepted"> };
+  /** Auto-reply text for a rejection, or null when none should be sent now. */
+  autoReplyFor: (senderPubkey: string, decision: GateDecision) => string | null;
+  counts: () => AntiSpamCounts;
+}
+
+export function createInboundGate(opts: AntiSpamOptions = {}): InboundGate {
+  const counts: AntiSpamCounts = { accepted: 0, pow: 0, "sender-rate": 0, "account-rate": 0, concurrency: 0 };
+  const senderBuckets = new Map<string, TokenBucket>();
+  const accountBucket: TokenBucket = { tokens: opts.accountBurst ?? opts.accountRatePerMinute ?? 0, updatedAt: Date.now() };
+  const lastAutoReply = new Map<string, number>();
+  // One gate per account, so the run cap is per account too
+  let runsInFlight = 0;
+
+  const reject = (decision: Exclude<GateDecision, "accepted">) => {
+    counts[decision]++;
+    return { decision } as const;
+  };
+
+  return {
+    admit: (senderPubkey, powDifficulty, knownSender) => {
+      const now = Date.now();
+
+      if (opts.minPowDifficulty && !knownSender && powDifficulty < opts.minPowDifficulty) {
+        return reject("pow");
+      }
+
+      if (opts.senderRatePerMinute) {
+        const burst = opts.senderBurst ?? opts.senderRatePerMinute;
+        let bucket = senderBuckets.get(senderPubkey);
+        if (!bucket) {
+          if (senderBuckets.size >= MAX_TRACKED_SENDERS) {
+            // Map iteration order is insertion order — drop the oldest first
+            const oldest = senderBuckets.keys().next().value;
+            if (oldest !== undefined) senderBuckets.delete(oldest);
+          }
+          bucket = { tokens: burst, updatedAt: now };
+          senderBuckets.set(senderPubkey, bucket);
+        }
+        if (!takeToken(bucket, opts.senderRatePerMinute, burst, now)) return reject("sender-rate");
+      }
+
+      if (opts.accountRatePerMinute) {
+        const burst = opts.accountBurst ?? opts.accountRatePerMinute;
+        if (!takeToken(accountBucket, opts.accountRatePerMinute, burst, now)) return reject("account-rate");
+      }
+
+      if (opts.maxConcurrentRuns && runsInFlight >= opts.maxConcurrentRuns) {
+        return reject("concurrency");
+      }
+
+      counts.accepted++;
+      runsInFlight++;
+      let released = false;
+      return {
+        decision: "accepted",
+        release: () => {
+          if (released) return;
+          released = true;
+          runsInFlight--;
+        },
+      };
+    },
+    autoReplyFor: (senderPubkey, decision) => {
+      if (!opts.autoReply || decision === "accepted") return null;
+      const now = Date.now();
+      const last = lastAutoReply.get(senderPubkey);
+      if (last !== undefined && now - last < AUTO_REPLY_WINDOW_MS) return null;
+      lastAutoReply.set(senderPubkey, now);
+      if (lastAutoReply.size > MAX_TRACKED_SENDERS) {
+        const oldest = lastAutoReply.keys().next().value;
+        if (oldest !== undefined) lastAutoReply.delete(oldest);
+      }
+      return typeof opts.autoReply === "string" ? opts.autoReply : defaultAutoReplyText(decision, opts);
+    },
+    counts: () => ({ ...counts }),
+  };
+}
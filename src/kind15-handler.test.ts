@@ -0,0 +1,69 @@
+import { createHash } from "node:crypto";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buildKind15Tags, decryptAesGcmFile, encryptAesGcm, parseKind15Tags } from "./kind15-handler.js";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "kind15-"));
+});
+
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+// Bigger than one stream chunk, so the tag has to be split off the tail
+const file = Buffer.from(Array.from({ length: 200_000 }, (_, i) => (i * 31) % 256));
+
+describe("decryptAesGcmFile", () => {
+  it("decrypts what encryptAesGcm produced", async () => {
+    const { encrypted, key, nonce } = await encryptAesGcm(file);
+    await writeFile(join(dir, "roundtrip.enc"), encrypted);
+
+    const result = await decryptAesGcmFile(join(dir, "roundtrip.enc"), join(dir, "roundtrip"), key, nonce);
+    expect(result).toEqual({ size: file.length, sha256: createHash("sha256").update(file).digest("hex") });
+    expect(await readFile(join(dir, "roundtrip"))).toEqual(file);
+  });
+
+  it("takes base64 keys and nonces too", async () => {
+    const { encrypted, key, nonce } = await encryptAesGcm(Buffer.from("hello"));
+    await writeFile(join(dir, "base64.enc"), encrypted);
+
+    await decryptAesGcmFile(
+      join(dir, "base64.enc"),
+      join(dir, "base64"),
+      Buffer.from(key, "hex").toString("base64"),
+      Buffer.from(nonce, "hex").toString("base64"),
+    );
+    expect(await readFile(join(dir, "base64"), "utf8")).toBe("hello");
+  });
+
+  it("removes the output when authentication fails", async () => {
+    const { encrypted, key, nonce } = await encryptAesGcm(file);
+    encrypted[100] ^= 1;
+    await writeFile(join(dir, "tampered.enc"), encrypted);
+
+    await expect(decryptAesGcmFile(join(dir, "tampered.enc"), join(dir, "tampered"), key, nonce))
+      .rejects.toThrow(/AES-GCM decryption failed/);
+    expect(await readdir(dir)).not.toContain("tampered");
+  });
+});
+
+describe("buildKind15Tags", () => {
+  it("round-trips through parseKind15Tags", () => {
+    const metadata = {
+      fileType: "image/png",
+      encryptionAlgorithm: "aes-gcm",
+      decryptionKey: "00".repeat(32),
+      decryptionNonce: "11".repeat(12),
+      encryptedHash: "a".repeat(64),
+      originalHash: "b".repeat(64),
+      size: 1234,
+      dimensions: { width: 640, height: 480 },
+      fallbacks: ["https://example.com/a", "https://example.org/a"],
+    };
+    // The URL travels as the rumor content, not as a tag
+    expect(parseKind15Tags(buildKind15Tags({ url: "https://example.com/a", ...metadata }))).toEqual(metadata);
+  });
+});
@@ -1,4 +1,9 @@
 import { webcrypto } from "crypto";
+import { createDecipheriv, createHash } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { open, rm, stat } from "node:fs/promises";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
 
 /**
  * Parse kind 15 file message tags
@@ -73,100 +78,135 @@ export function parseKind15Tags(tags: string[][]): Kind15FileMetadata | null {
 }
 
 /**
- * Decrypt AES-GCM encrypted file
+ * Decode a kind 15 key or nonce: hex when it is exactly `hexLength` hex
+ * characters, base64 otherwise.
  */
-export async function decryptAesGcm(
-  encryptedData: Uint8Array,
+function decodeKeyMaterial(encoded: string, hexLength: number): Buffer {
+  const trimmed = encoded.trim();
+  return new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(trimmed)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+}
+
+/**
+ * Decrypt an AES-GCM encrypted file from `srcPath` to `destPath` without
+ * loading it into memory. The 16-byte tag is the last 16 bytes of the
+ * ciphertext (WebCrypto layout). Returns the plaintext size and SHA-256; the
+ * output is removed if authentication fails.
+ */
+export async function decryptAesGcmFile(
+  srcPath: string,
+  destPath: string,
   keyEncoded: string,
   nonceEncoded: string,
-): Promise<Buffer> {
-  // Try to detect encoding: hex (64 chars) or base64
+): Promise<{ size: number; sha256: string }> {
   // AES-256 key = 32 bytes = 64 hex chars or ~44 base64 chars
-  const isHex = /^[0-9a-fA-F]{64}$/.test(keyEncoded.trim());
-  
-  const key = isHex 
-    ? Buffer.from(keyEncoded.trim(), "hex")
-    : Buffer.from(keyEncoded.trim(), "base64");
-    
-  const nonceIsHex = /^[0-9a-fA-F]{24}$/.test(nonceEncoded.trim());
-  const nonce = nonceIsHex
-    ? Buffer.from(nonceEncoded.trim(), "hex")
-    : Buffer.from(nonceEncoded.trim(), "base64");
-  
-  // Import the key for AES-GCM
+  const key = decodeKeyMaterial(keyEncoded, 64);
+  const nonce = decodeKeyMaterial(nonceEncoded, 24);
+  if (![16, 24, 32].includes(key.length)) {
+    throw new Error(`Invalid AES-GCM key length ${key.length}`);
+  }
+
+  const { size: encryptedSize } = await stat(srcPath);
+  if (encryptedSize < 16) throw new Error("Encrypted file too short");
+  const source = await open(srcPath, "r");
+  const tag = Buffer.alloc(16);
+  try {
+    await source.read(tag, 0, 16, encryptedSize - 16);
+  } finally {
+    await source.close();
+  }
+
+  const decipher = createDecipheriv(`aes-${key.length * 8}-gcm` as "aes-256-gcm", key, nonce);
+  decipher.setAuthTag(tag);
+  const hash = createHash("sha256");
+  let size = 0;
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(
+      encryptedSize > 16 ? createReadStream(srcPath, { end: encryptedSize - 17 }) : Readable.from([]),
+      decipher,
+      measure,
+      createWriteStream(destPath),
+    );
+  } catch (err) {
+    await rm(destPath, { force: true });
+    throw new Error(`AES-GCM decryption failed: ${(err as Error).message}`);
+  }
+  return { size, sha256: hash.digest("hex") };
+}
+
+/**
+ * Hex-encoded SHA-256 of a buffer (used for the kind 15 `x`/`ox` tags)
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const hash = await webcrypto.subtle.digest("SHA-256", data);
+  return Buffer.from(hash).toString("hex");
+}
+
+/**
+ * Encrypt a file with a fresh AES-256-GCM key and nonce.
+ * Key and nonce are returned hex-encoded, the form decryptAesGcmFile reads first.
+ */
+export async function encryptAesGcm(
+  data: Uint8Array,
+): Promise<{ encrypted: Buffer; key: string; nonce: string }> {
+  const key = webcrypto.getRandomValues(new Uint8Array(32));
+  const nonce = webcrypto.getRandomValues(new Uint8Array(12));
+
   const cryptoKey = await webcrypto.subtle.importKey(
     "raw",
     key,
     { name: "AES-GCM" },
     false,
-    ["decrypt"],
+    ["encrypt"],
   );
-  
-  // Decrypt
-  const decrypted = await webcrypto.subtle.decrypt(
+
+  const encrypted = await webcrypto.subtle.encrypt(
     {
       name: "AES-GCM",
       iv: nonce,
     },
     cryptoKey,
-    encryptedData,
+    data,
   );
-  
-  return Buffer.from(decrypted);
+
+  return {
+    encrypted: Buffer.from(encrypted),
+    key: Buffer.from(key).toString("hex"),
+    nonce: Buffer.from(nonce).toString("hex"),
+  };
 }
 
 /**
- * Fetch and decrypt a kind 15 file
+ * Build kind 15 file message tags — the inverse of parseKind15Tags.
+ * The URL itself goes in the rumor content, not in a tag.
  */
-export async function fetchAndDecryptKind15File(
-  metadata: Kind15FileMetadata,
-): Promise<{ data: Buffer; mimeType?: string }> {
-  if (!metadata.url) {
-    throw new Error("Kind 15 file message missing URL");
-  }
-  
-  if (!metadata.decryptionKey || !metadata.decryptionNonce) {
-    throw new Error("Kind 15 file message missing decryption key or nonce");
-  }
-  
-  if (metadata.encryptionAlgorithm && metadata.encryptionAlgorithm !== "aes-gcm") {
-    throw new Error(`Unsupported encryption algorithm: ${metadata.encryptionAlgorithm}`);
-  }
-  
-  // Fetch encrypted file
-  const response = await fetch(metadata.url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch file: ${response.status} ${response.statusText}`);
-  }
-  
-  const encryptedData = await response.arrayBuffer();
-  
-  // Decrypt using AES-GCM
-  const decrypted = await decryptAesGcm(
-    new Uint8Array(encryptedData),
-    metadata.decryptionKey,
-    metadata.decryptionNonce,
-  );
-  
-  console.log(`[kind15] Decrypted ${decrypted.length} bytes, type: ${metadata.fileType}`);
-  try {
-    console.log(`[kind15] First 100 chars (utf8): ${decrypted.slice(0, 100).toString('utf8')}`);
-  } catch {
-    console.log(`[kind15] First 100 bytes (hex): ${decrypted.slice(0, 100).toString('hex')}`);
+export function buildKind15Tags(metadata: Kind15FileMetadata): string[][] {
+  const tags: string[][] = [];
+
+  if (metadata.fileType) tags.push(["file-type", metadata.fileType]);
+  if (metadata.encryptionAlgorithm) tags.push(["encryption-algorithm", metadata.encryptionAlgorithm]);
+  if (metadata.decryptionKey) tags.push(["decryption-key", metadata.decryptionKey]);
+  if (metadata.decryptionNonce) tags.push(["decryption-nonce", metadata.decryptionNonce]);
+  if (metadata.encryptedHash) tags.push(["x", metadata.encryptedHash]);
+  if (metadata.originalHash) tags.push(["ox", metadata.originalHash]);
+  if (metadata.size !== undefined) tags.push(["size", String(metadata.size)]);
+  if (metadata.dimensions) {
+    tags.push(["dim", `${metadata.dimensions.width}x${metadata.dimensions.height}`]);
   }
-  
-  // Verify hash if provided
-  if (metadata.originalHash) {
-    const hash = await webcrypto.subtle.digest("SHA-256", decrypted);
-    const hashHex = Buffer.from(hash).toString("hex");
-    console.log(`[kind15] Hash check: expected ${metadata.originalHash}, got ${hashHex}`);
-    if (hashHex !== metadata.originalHash) {
-      throw new Error("Decrypted file hash mismatch");
-    }
+  if (metadata.blurhash) tags.push(["blurhash", metadata.blurhash]);
+  if (metadata.thumb) tags.push(["thumb", metadata.thumb]);
+  for (const fallback of metadata.fallbacks ?? []) {
+    tags.push(["fallback", fallback]);
   }
-  
-  return {
-    data: decrypted,
-    mimeType: metadata.fileType,
-  };
+
+  return tags;
 }
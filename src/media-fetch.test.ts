@@ -0,0 +1,136 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_MEDIA_LIMITS, fetchMedia, fetchMediaToFile, isBlockedAddress, isMimeTypeAllowed } from "./media-fetch.js";
+
+let server: Server;
+let port: number;
+let base: string;
+let dir: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    switch (req.url) {
+      case "/declared":
+        res.writeHead(200, { "content-type": "application/octet-stream", "content-length": 4096 });
+        res.end(Buffer.alloc(4096));
+        return;
+      case "/streamed":
+        // No content-length: only the running count can stop it
+        res.writeHead(200, { "content-type": "application/octet-stream", "transfer-encoding": "chunked" });
+        for (let i = 0; i < 4; i++) res.write(Buffer.alloc(1024));
+        res.end();
+        return;
+      case "/hang":
+        return;
+      case "/redirect":
+        res.writeHead(302, { location: "/ok" });
+        res.end();
+        return;
+      default:
+        res.writeHead(200, { "content-type": "text/plain; charset=utf-8" });
+        res.end("ok");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  port = (server.address() as AddressInfo).port;
+  base = `http://127.0.0.1:${port}`;
+  dir = await mkdtemp(join(tmpdir(), "media-fetch-"));
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  await rm(dir, { recursive: true, force: true });
+});
+
+const lan = { ...DEFAULT_MEDIA_LIMITS, allowPrivateNetwork: true };
+
+describe("isBlockedAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "not-an-address",
+  ])("blocks %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(["1.1.1.1", "93.184.216.34", "2606:4700:4700::1111", "::ffff:1.1.1.1"])("allows %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+});
+
+describe("isMimeTypeAllowed", () => {
+  it("matches whole top-level types and ignores parameters", () => {
+    expect(isMimeTypeAllowed("Image/PNG", ["image/*"])).toBe(true);
+    expect(isMimeTypeAllowed("text/plain; charset=utf-8", ["text/plain"])).toBe(true);
+    expect(isMimeTypeAllowed("application/zip", ["image/*", "application/pdf"])).toBe(false);
+    expect(isMimeTypeAllowed(undefined, ["image/*"])).toBe(false);
+  });
+});
+
+describe("fetchMedia", () => {
+  it("refuses private IP literals", async () => {
+    await expect(fetchMedia(`${base}/ok`)).rejects.toThrow(/blocked address 127\.0\.0\.1/);
+  });
+
+  it("refuses hostnames that resolve to loopback", async () => {
+    await expect(fetchMedia(`http://localhost:${port}/ok`)).rejects.toThrow(/localhost resolves to blocked address/);
+  });
+
+  it("fetches private destinations when allowed", async () => {
+    const { data, contentType } = await fetchMedia(`http://localhost:${port}/ok`, lan);
+    expect(data.toString()).toBe("ok");
+    expect(contentType).toBe("text/plain");
+  });
+
+  it("refuses non-HTTP schemes", async () => {
+    await expect(fetchMedia("file:///etc/passwd", lan)).rejects.toThrow(/unsupported URL scheme file:/);
+  });
+
+  it("rejects a declared length over the limit before reading", async () => {
+    await expect(fetchMedia(`${base}/declared`, { ...lan, maxBytes: 1024 })).rejects.toThrow(/4 KB exceeds the 1 KB limit/);
+  });
+
+  it("stops a streamed body at the limit", async () => {
+    await expect(fetchMedia(`${base}/streamed`, { ...lan, maxBytes: 2048 })).rejects.toThrow(/body exceeds the 2 KB limit/);
+  });
+
+  it("gives up on a server that never answers", async () => {
+    await expect(fetchMedia(`${base}/hang`, { ...lan, fetchTimeoutSeconds: 0.1 })).rejects.toThrow(/timed out after 0\.1s/);
+  });
+
+  it("follows redirects unless told not to", async () => {
+    expect((await fetchMedia(`${base}/redirect`, lan)).data.toString()).toBe("ok");
+    await expect(fetchMedia(`${base}/redirect`, lan, { maxRedirects: 0 })).rejects.toThrow(/redirects are not followed/);
+  });
+});
+
+describe("fetchMediaToFile", () => {
+  it("removes the partial file when the body runs over", async () => {
+    await expect(fetchMediaToFile(`${base}/streamed`, join(dir, "partial"), { ...lan, maxBytes: 2048 })).rejects.toThrow(/exceeds/);
+    expect(await readdir(dir)).not.toContain("partial");
+  });
+
+  it("hashes what it writes", async () => {
+    const result = await fetchMediaToFile(`${base}/ok`, join(dir, "ok"), lan);
+    expect(result).toEqual({
+      size: 2,
+      sha256: "2689367b205c16ce32ed4200942b8b8b1e262dfc70d9bc9fbc77c49699a4f1df",
+      contentType: "text/plain",
+    });
+  });
+});
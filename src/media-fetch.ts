@@ -0,0 +1,255 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP } from "node:net";
+import { createHash } from "node:crypto";
+import { open, rm } from "node:fs/promises";
+
+/**
+ * Fetching of inbound media URLs. Those URLs come from strangers (`imeta`
+ * tags, kind 15 content), so every fetch is size-capped while streaming,
+ * time-limited, and refused for loopback, private and link-local
+ * destinations — checked on the address actually connected to, so DNS
+ * rebinding can't slip past.
+ */
+
+export interface MediaLimits {
+  /** Largest encrypted download accepted, in bytes */
+  maxBytes: number;
+  /** Attachments fetched per message; the rest are rejected */
+  maxAttachments: number;
+  /** Accepted MIME types; `type/*` matches a whole top-level type */
+  allowedMimeTypes: string[];
+  /** Whole-request deadline, including redirects */
+  fetchTimeoutSeconds: number;
+  /** Text files up to this size are inlined into the prompt; larger ones are attached as files */
+  maxInlineTextBytes: number;
+  /** Allow loopback/private destinations (self-hosted Blossom on a LAN) */
+  allowPrivateNetwork: boolean;
+}
+
+export const DEFAULT_MEDIA_LIMITS: MediaLimits = {
+  maxBytes: 20 * 1024 * 1024,
+  maxAttachments: 4,
+  allowedMimeTypes: ["image/*", "audio/*", "video/*", "text/*", "application/pdf", "application/json"],
+  fetchTimeoutSeconds: 30,
+  maxInlineTextBytes: 64 * 1024,
+  allowPrivateNetwork: false,
+};
+
+/** An attachment that was not passed to the agent, and why. */
+export interface MediaRejection {
+  url: string;
+  reason: string;
+}
+
+const MAX_REDIRECTS = 3;
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, incl. cloud metadata endpoints
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved + broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return blockedAddresses.check(mapped[1], "ipv4");
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Whether a MIME type is on the allowlist. Parameters are ignored.
+ */
+export function isMimeTypeAllowed(mimeType: string | undefined, allowed: string[]): boolean {
+  if (!mimeType) return false;
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  return allowed.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    return pattern.endsWith("/*") ? base.startsWith(pattern.slice(0, -1)) : base === pattern;
+  });
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// dns.lookup wrapper handed to http(s).request: resolution happens at
+// connect time, so the address checked is the address dialed.
+function guardedLookup(
+  hostname: string,
+  options: { all?: boolean; family?: number | string },
+  callback: (err: Error | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+  dnsLookup(hostname, { ...options, all: true } as any, (err, addresses: LookupAddress[]) => {
+    if (err) return callback(err, []);
+    const blocked = addresses.find((a) => isBlockedAddress(a.address));
+    if (blocked) return callback(new Error(`${hostname} resolves to blocked address ${blocked.address}`), []);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+function openResponse(url: URL, limits: MediaLimits, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+    const req = request(url, {
+      method: "GET",
+      signal,
+      ...(limits.allowPrivateNetwork ? {} : { lookup: guardedLookup as any }),
+    }, resolve);
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+/**
+ * Open a media URL under the given limits, following redirects, and return
+ * the response once its status and declared length check out. Throws with a
+ * human-readable reason (used verbatim in rejection notes).
+ */
+async function openMedia(
+  rawUrl: string,
+  limits: MediaLimits,
+  signal: AbortSignal,
+  maxRedirects = MAX_REDIRECTS,
+): Promise<IncomingMessage> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error("invalid URL");
+  }
+
+  for (let redirects = 0; ; redirects++) {
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw new Error(`unsupported URL scheme ${url.protocol}`);
+    }
+    // IP literals never go through lookup — check them here
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (!limits.allowPrivateNetwork && isIP(host) && isBlockedAddress(host)) {
+      throw new Error(`blocked address ${host}`);
+    }
+
+    const response = await openResponse(url, limits, signal);
+    const status = response.statusCode ?? 0;
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= maxRedirects) throw new Error(maxRedirects === 0 ? "redirects are not followed" : "too many redirects");
+      url = new URL(response.headers.location, url);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`HTTP ${status} ${response.statusMessage ?? ""}`.trim());
+    }
+
+    const declared = Number(response.headers["content-length"]);
+    if (Number.isFinite(declared) && declared > limits.maxBytes) {
+      response.destroy();
+      throw new Error(`${formatBytes(declared)} exceeds the ${formatBytes(limits.maxBytes)} limit`);
+    }
+    return response;
+  }
+}
+
+function responseContentType(response: IncomingMessage): string | undefined {
+  return response.headers["content-type"]?.split(";")[0].trim() || undefined;
+}
+
+/**
+ * Stream a response body to `sink`, enforcing the byte limit as it goes.
+ */
+async function readBody(
+  response: IncomingMessage,
+  limits: MediaLimits,
+  sink: (chunk: Buffer) => Promise<void> | void,
+): Promise<number> {
+  let received = 0;
+  for await (const chunk of response) {
+    received += (chunk as Buffer).length;
+    if (received > limits.maxBytes) {
+      response.destroy();
+      throw new Error(`body exceeds the ${formatBytes(limits.maxBytes)} limit`);
+    }
+    await sink(chunk as Buffer);
+  }
+  return received;
+}
+
+async function withDeadline<T>(limits: MediaLimits, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const signal = AbortSignal.timeout(limits.fetchTimeoutSeconds * 1000);
+  try {
+    return await run(signal);
+  } catch (err) {
+    if (signal.aborted) throw new Error(`timed out after ${limits.fetchTimeoutSeconds}s`);
+    throw err;
+  }
+}
+
+/**
+ * Download a media URL into memory under the given limits. For small
+ * payloads only (NIP-44 blobs, NIP-05 documents); files go through
+ * fetchMediaToFile.
+ */
+export async function fetchMedia(
+  rawUrl: string,
+  limits: MediaLimits = DEFAULT_MEDIA_LIMITS,
+  opts: { maxRedirects?: number } = {},
+): Promise<{ data: Buffer; contentType?: string }> {
+  return withDeadline(limits, async (signal) => {
+    const response = await openMedia(rawUrl, limits, signal, opts.maxRedirects);
+    const chunks: Buffer[] = [];
+    await readBody(response, limits, (chunk) => { chunks.push(chunk); });
+    return { data: Buffer.concat(chunks), contentType: responseContentType(response) };
+  });
+}
+
+/**
+ * Download a media URL straight to `destPath`, hashing as it streams. The
+ * partial file is removed on any failure.
+ */
+export async function fetchMediaToFile(
+  rawUrl: string,
+  destPath: string,
+  limits: MediaLimits = DEFAULT_MEDIA_LIMITS,
+): Promise<{ size: number; sha256: string; contentType?: string }> {
+  return withDeadline(limits, async (signal) => {
+    const response = await openMedia(rawUrl, limits, signal);
+    const hash = createHash("sha256");
+    const file = await open(destPath, "w");
+    try {
+      const size = await readBody(response, limits, async (chunk) => {
+        hash.update(chunk);
+        await file.write(chunk);
+      });
+      await file.close();
+      return { size, sha256: hash.digest("hex"), contentType: responseContentType(response) };
+    } catch (err) {
+      await file.close().catch(() => {});
+      await rm(destPath, { force: true });
+      throw err;
+    }
+  });
+}
@@ -0,0 +1,77 @@
+import { createCipheriv, createHash, createHmac, randomBytes } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import * as nip44 from "nostr-tools/nip44";
+import { decodeNip44Plaintext, nip44DecryptBytes, nip44PayloadFromBlob } from "./media-handler.js";
+
+// NIP-44 v2 over raw bytes, the way clients that encrypt binary files do it
+// (nostr-tools only takes strings)
+function nip44EncryptBytes(plaintext: Buffer, conversationKey: Uint8Array): string {
+  const nonce = randomBytes(32);
+  const t1 = createHmac("sha256", conversationKey).update(nonce).update(Buffer.from([1])).digest();
+  const t2 = createHmac("sha256", conversationKey).update(t1).update(nonce).update(Buffer.from([2])).digest();
+  const t3 = createHmac("sha256", conversationKey).update(t2).update(nonce).update(Buffer.from([3])).digest();
+  const keys = Buffer.concat([t1, t2, t3]);
+  const padded = Buffer.alloc(2 + nip44.v2.utils.calcPaddedLen(plaintext.length));
+  padded.writeUInt16BE(plaintext.length, 0);
+  plaintext.copy(padded, 2);
+  const cipher = createCipheriv("chacha20", keys.subarray(0, 32), Buffer.concat([Buffer.alloc(4), keys.subarray(32, 44)]));
+  const ciphertext = Buffer.concat([cipher.update(padded), cipher.final()]);
+  const mac = createHmac("sha256", keys.subarray(44, 76)).update(nonce).update(ciphertext).digest();
+  return Buffer.concat([Buffer.from([2]), nonce, ciphertext, mac]).toString("base64");
+}
+
+const sha256 = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+const conversationKey = nip44.getConversationKey(generateSecretKey(), getPublicKey(generateSecretKey()));
+
+describe("nip44DecryptBytes", () => {
+  it("returns binary plaintext byte for byte", () => {
+    // Not valid UTF-8: a string decrypt would replace these bytes
+    const file = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0xfe, 0x00, 0xc3, 0x28]);
+    expect(nip44DecryptBytes(nip44EncryptBytes(file, conversationKey), conversationKey)).toEqual(file);
+  });
+
+  it("reads payloads from other NIP-44 implementations", () => {
+    const payload = nip44.encrypt("héllo wörld", conversationKey);
+    expect(nip44DecryptBytes(payload, conversationKey).toString("utf8")).toBe("héllo wörld");
+  });
+
+  it("rejects a tampered payload", () => {
+    const raw = Buffer.from(nip44EncryptBytes(Buffer.from("secret"), conversationKey), "base64");
+    raw[40] ^= 1;
+    expect(() => nip44DecryptBytes(raw.toString("base64"), conversationKey)).toThrow(/MAC mismatch/);
+  });
+
+  it("rejects other versions", () => {
+    expect(() => nip44DecryptBytes(Buffer.alloc(120, 1).toString("base64"), conversationKey)).toThrow(/Unsupported/);
+  });
+});
+
+describe("nip44PayloadFromBlob", () => {
+  it("accepts the payload as text or as its raw bytes", () => {
+    const payload = nip44EncryptBytes(Buffer.from("x"), conversationKey);
+    expect(nip44PayloadFromBlob(Buffer.from(`${payload}\n`))).toBe(payload);
+    expect(nip44PayloadFromBlob(Buffer.from(payload, "base64"))).toBe(payload);
+  });
+});
+
+describe("decodeNip44Plaintext", () => {
+  const file = Buffer.from([0xde, 0xad, 0xbe, 0xef, 0x00, 0x01]);
+
+  it("unwraps base64 and data URLs", () => {
+    expect(decodeNip44Plaintext(Buffer.from(file.toString("base64")), "image/png")).toEqual(file);
+    expect(decodeNip44Plaintext(Buffer.from(`data:image/png;base64,${file.toString("base64")}`))).toEqual(file);
+    expect(decodeNip44Plaintext(file, "image/png")).toEqual(file);
+  });
+
+  it("keeps text that merely looks like base64", () => {
+    expect(decodeNip44Plaintext(Buffer.from("abcd"), "text/plain").toString()).toBe("abcd");
+  });
+
+  it("picks the reading that matches the original hash", () => {
+    const text = Buffer.from("abcd");
+    const decoded = Buffer.from("abcd", "base64");
+    expect(decodeNip44Plaintext(text, "text/plain", sha256(decoded))).toEqual(decoded);
+    expect(() => decodeNip44Plaintext(text, "text/plain", "0".repeat(64))).toThrow(/ox hash/);
+  });
+});
@@ -1,5 +1,5 @@
+import { createDecipheriv, createHash, createHmac, timingSafeEqual } from "node:crypto";
 import { getConversationKey } from "nostr-tools/nip44";
-import * as nip44 from "nostr-tools/nip44";
 
 /**
  * Parse imeta tags from a Nostr event
@@ -11,6 +11,11 @@ export interface MediaAttachment {
   blurhash?: string;
   size?: number;
   dimensions?: { width: number; height: number };
+  /** SHA-256 of the blob as served (encrypted) */
+  encryptedHash?: string;
+  /** SHA-256 of the decrypted file */
+  originalHash?: string;
+  fallbacks?: string[];
 }
 
 export function parseImetaTags(tags: string[][]): MediaAttachment[] {
@@ -29,6 +34,12 @@ export function parseImetaTags(tags: string[][]): MediaAttachment[] {
         attachment.mimeType = part.slice(2).trim();
       } else if (part.startsWith("blurhash ")) {
         attachment.blurhash = part.slice(9).trim();
+      } else if (part.startsWith("x ")) {
+        attachment.encryptedHash = part.slice(2).trim().toLowerCase();
+      } else if (part.startsWith("ox ")) {
+        attachment.originalHash = part.slice(3).trim().toLowerCase();
+      } else if (part.startsWith("fallback ")) {
+        (attachment.fallbacks ??= []).push(part.slice(9).trim());
       } else if (part.startsWith("size ")) {
         attachment.size = parseInt(part.slice(5).trim(), 10);
       } else if (part.startsWith("dim ")) {
@@ -50,48 +61,88 @@ export function parseImetaTags(tags: string[][]): MediaAttachment[] {
   return attachments;
 }
 
+// HKDF-Expand (RFC 5869) with SHA-256; NIP-44 uses the conversation key as
+// the PRK and the message nonce as info.
+function hkdfExpand(prk: Uint8Array, info: Uint8Array, length: number): Buffer {
+  const blocks: Buffer[] = [];
+  let previous = Buffer.alloc(0);
+  for (let i = 1; blocks.length * 32 < length; i++) {
+    previous = createHmac("sha256", prk).update(previous).update(info).update(Buffer.from([i])).digest();
+    blocks.push(previous);
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
 /**
- * Fetch and decrypt a NIP-44 encrypted blob
+ * NIP-44 v2 decryption that returns the plaintext bytes instead of decoding
+ * them as UTF-8, so binary payloads survive. Requires the conversation key,
+ * i.e. a local private key.
  */
-export async function fetchAndDecryptBlob(
-  url: string,
-  conversationKey: Uint8Array,
-): Promise<{ data: Buffer; mimeType?: string }> {
-  // Fetch the encrypted blob
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch blob: ${response.status} ${response.statusText}`);
+export function nip44DecryptBytes(payload: string, conversationKey: Uint8Array): Buffer {
+  const raw = Buffer.from(payload, "base64");
+  // version (1) + nonce (32) + smallest padded plaintext (34) + MAC (32)
+  if (raw.length < 99 || raw[0] !== 2) {
+    throw new Error("Unsupported NIP-44 payload");
   }
-  
-  const encryptedData = await response.arrayBuffer();
-  const encryptedBytes = new Uint8Array(encryptedData);
-  
-  // Decrypt using NIP-44
-  // The encrypted blob is expected to be in NIP-44 format
-  const decrypted = nip44.v2.decrypt(
-    Buffer.from(encryptedBytes).toString("base64"),
-    conversationKey,
-  );
-  
-  // Try to infer mime type from response headers (though spec says it won't be there)
-  const contentType = response.headers.get("content-type");
-  
-  return {
-    data: Buffer.from(decrypted, "utf8"),
-    mimeType: contentType || undefined,
-  };
+  const nonce = raw.subarray(1, 33);
+  const ciphertext = raw.subarray(33, raw.length - 32);
+  const mac = raw.subarray(raw.length - 32);
+
+  const keys = hkdfExpand(conversationKey, nonce, 76);
+  const expectedMac = createHmac("sha256", keys.subarray(44, 76)).update(nonce).update(ciphertext).digest();
+  if (!timingSafeEqual(expectedMac, mac)) {
+    throw new Error("NIP-44 MAC mismatch");
+  }
+
+  // OpenSSL's chacha20 IV is a 32-bit little-endian block counter followed
+  // by the 96-bit nonce; NIP-44 starts the counter at 0.
+  const iv = Buffer.concat([Buffer.alloc(4), keys.subarray(32, 44)]);
+  const decipher = createDecipheriv("chacha20", keys.subarray(0, 32), iv);
+  const padded = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  const length = padded.readUInt16BE(0);
+  if (length === 0 || 2 + length > padded.length) {
+    throw new Error("Invalid NIP-44 padding");
+  }
+  return padded.subarray(2, 2 + length);
+}
+
+/**
+ * NIP-44 payload string for a fetched blob: servers hold either the base64
+ * payload as text or its raw bytes.
+ */
+export function nip44PayloadFromBlob(blob: Buffer): string {
+  const text = blob.toString("latin1").trim();
+  return /^[A-Za-z0-9+/]+={0,2}$/.test(text) ? text : blob.toString("base64");
 }
 
 /**
- * Convert decrypted media to a data URL for agent consumption
+ * Turn decrypted NIP-44 plaintext into file bytes. Clients put files in
+ * NIP-44 as raw bytes, as base64 or as a data URL; with the original hash
+ * the matching reading is chosen, without it the most likely one.
  */
-export function mediaToDataUrl(
-  data: Buffer,
+export function decodeNip44Plaintext(
+  plaintext: Buffer,
   mimeType?: string,
-): string {
-  const base64 = data.toString("base64");
-  const type = mimeType || "application/octet-stream";
-  return `data:${type};base64,${base64}`;
+  originalHash?: string,
+): Buffer {
+  const text = plaintext.toString("latin1").trim();
+  const dataUrl = /^data:[^,]*;base64,([A-Za-z0-9+/=\s]+)$/.exec(text);
+  const base64 = !dataUrl && /^[A-Za-z0-9+/\s]+={0,2}$/.test(text) && text.replace(/\s/g, "").length % 4 === 0
+    ? text
+    : undefined;
+
+  const candidates: Buffer[] = [];
+  if (dataUrl) candidates.push(Buffer.from(dataUrl[1], "base64"));
+  // Base64 that happens to be meaningful text (e.g. a short text/plain file)
+  // is ambiguous — prefer the literal reading for text types.
+  if (base64 && !mimeType?.startsWith("text/")) candidates.push(Buffer.from(base64, "base64"));
+  candidates.push(plaintext);
+  if (base64 && mimeType?.startsWith("text/")) candidates.push(Buffer.from(base64, "base64"));
+
+  if (!originalHash) return candidates[0];
+  const match = candidates.find((c) => createHash("sha256").update(c).digest("hex") === originalHash);
+  if (!match) throw new Error("decrypted file does not match its ox hash");
+  return match;
 }
 
 /**
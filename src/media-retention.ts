@@ -0,0 +1,163 @@
+import { readdir, rm, stat } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { InboundAttachment } from "./nip17-bus.js";
+import {
+  accountMediaRoot,
+  inboundMediaRoot,
+  mediaDirCreatedAt,
+  readMediaDirExpiry,
+} from "./media-store.js";
+
+/**
+ * Retention for decrypted inbound attachments: a periodic sweep per account
+ * enforcing max age and max total size, immediate removal of messages whose
+ * NIP-40 expiration passes, and optionally deleting a message's files as
+ * soon as the agent run that used them finishes.
+ */
+
+export interface MediaRetentionPolicy {
+  /** Delete message directories older than this */
+  maxAgeHours: number;
+  /** Delete oldest message directories until the account is under this */
+  maxTotalMB: number;
+  /** Delete a message's attachments once the agent run for it completes */
+  deleteAfterRun: boolean;
+  sweepIntervalMinutes: number;
+}
+
+export const DEFAULT_MEDIA_RETENTION: MediaRetentionPolicy = {
+  maxAgeHours: 7 * 24,
+  maxTotalMB: 1024,
+  deleteAfterRun: false,
+  sweepIntervalMinutes: 60,
+};
+
+// setTimeout can't wait longer than this (~24.8 days); later expirations
+// are left to the sweep.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface MessageDir {
+  path: string;
+  createdAt: number;
+  bytes: number;
+  expiresAt?: number;
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const full = join(dir, entry.name);
+    total += entry.isDirectory() ? await directorySize(full) : (await stat(full)).size;
+  }
+  return total;
+}
+
+async function listMessageDirs(root: string, filter: (name: string) => boolean = () => true): Promise<MessageDir[]> {
+  let entries;
+  try {
+    entries = await readdir(root, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const dirs: MessageDir[] = [];
+  for (const entry of entries) {
+    const createdAt = mediaDirCreatedAt(entry.name);
+    if (!entry.isDirectory() || createdAt === undefined || !filter(entry.name)) continue;
+    const path = join(root, entry.name);
+    dirs.push({ path, createdAt, bytes: await directorySize(path), expiresAt: await readMediaDirExpiry(path) });
+  }
+  return dirs;
+}
+
+/**
+ * One retention pass over an account's attachments (and any directories
+ * left at the top level by older releases). Returns what was removed.
+ */
+export async function sweepInboundMedia(
+  accountId: string,
+  policy: MediaRetentionPolicy = DEFAULT_MEDIA_RETENTION,
+  now: number = Date.now(),
+): Promise<{ removed: number; freedBytes: number }> {
+  const dirs = [
+    ...(await listMessageDirs(accountMediaRoot(accountId))),
+    ...(await listMessageDirs(inboundMediaRoot(), (name) => /^\d+$/.test(name))),
+  ].sort((a, b) => a.createdAt - b.createdAt);
+
+  const maxAgeMs = policy.maxAgeHours * 60 * 60 * 1000;
+  const maxBytes = policy.maxTotalMB * 1024 * 1024;
+  let total = dirs.reduce((sum, d) => sum + d.bytes, 0);
+  let removed = 0;
+  let freedBytes = 0;
+
+  for (const dir of dirs) {
+    const expired = dir.expiresAt !== undefined && dir.expiresAt * 1000 <= now;
+    const tooOld = now - dir.createdAt > maxAgeMs;
+    // Oldest first, so trimming to size drops the least recent messages
+    const overBudget = total > maxBytes;
+    if (!expired && !tooOld && !overBudget) continue;
+    await rm(dir.path, { recursive: true, force: true });
+    total -= dir.bytes;
+    freedBytes += dir.bytes;
+    removed++;
+  }
+  return { removed, freedBytes };
+}
+
+export interface MediaSweeper {
+  /** Remove a message directory when its NIP-40 expiration passes. */
+  scheduleExpiry: (dir: string, expiresAt: number) => void;
+  /** Called after the agent run for a message; deletes its files if configured. */
+  release: (media: InboundAttachment[] | undefined) => Promise<void>;
+  /** Delete a message's files now — for messages dropped before any run. */
+  discard: (media: InboundAttachment[] | undefined) => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Sweep an account's attachments now and every `sweepIntervalMinutes`.
+ */
+export function startMediaSweeper(
+  accountId: string,
+  policy: MediaRetentionPolicy,
+  onError?: (error: Error, context: string) => void,
+  onSwept?: (result: { removed: number; freedBytes: number }) => void,
+): MediaSweeper {
+  const expiryTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  const sweep = () => {
+    sweepInboundMedia(accountId, policy)
+      .then((result) => { if (result.removed > 0) onSwept?.(result); })
+      .catch((err) => onError?.(err as Error, "media sweep"));
+  };
+  sweep();
+  const timer = setInterval(sweep, policy.sweepIntervalMinutes * 60 * 1000);
+  timer.unref?.();
+
+  const removeDir = (dir: string) =>
+    rm(dir, { recursive: true, force: true }).catch((err) => onError?.(err as Error, `remove media ${dir}`));
+  const removeMediaDirs = async (media: InboundAttachment[] | undefined) => {
+    for (const dir of new Set((media ?? []).map((m) => dirname(m.path)))) await removeDir(dir);
+  };
+
+  return {
+    scheduleExpiry: (dir, expiresAt) => {
+      const delay = expiresAt * 1000 - Date.now();
+      if (delay > MAX_TIMER_MS) return;
+      const expiryTimer = setTimeout(() => {
+        expiryTimers.delete(expiryTimer);
+        void removeDir(dir);
+      }, Math.max(0, delay));
+      expiryTimer.unref?.();
+      expiryTimers.add(expiryTimer);
+    },
+    release: async (media) => {
+      if (policy.deleteAfterRun) await removeMediaDirs(media);
+    },
+    discard: removeMediaDirs,
+    stop: () => {
+      clearInterval(timer);
+      for (const expiryTimer of expiryTimers) clearTimeout(expiryTimer);
+      expiryTimers.clear();
+    },
+  };
+}
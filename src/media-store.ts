@@ -0,0 +1,55 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+
+/**
+ * Where inbound attachments are written: the OpenClaw state dir's media/
+ * folder, which is in the framework's allowed local media roots
+ * (assertLocalMediaAllowed). Siblings of os.tmpdir() such as
+ * "openclaw-media-nostr-nip17" are refused — only the preferred OpenClaw tmp
+ * dir (openclaw-<uid>) is whitelisted there.
+ *
+ * Layout: `<root>/<accountId>/<epoch ms>-<rumor id prefix>/attachment-N.<ext>`,
+ * plus an `.expires` marker (unix seconds) when the message carried a NIP-40
+ * expiration. Older releases wrote `<root>/<epoch ms>/` directly.
+ */
+export function inboundMediaRoot(): string {
+  const stateDir = process.env.OPENCLAW_STATE_DIR || join(homedir(), ".openclaw");
+  return join(stateDir, "media", "nostr-nip17");
+}
+
+export function accountMediaRoot(accountId: string): string {
+  return join(inboundMediaRoot(), accountId);
+}
+
+const EXPIRY_MARKER = ".expires";
+
+/**
+ * Fresh directory for one message's attachments.
+ */
+export async function createMessageMediaDir(accountId: string, rumorId: string, expiresAt?: number): Promise<string> {
+  const dir = join(accountMediaRoot(accountId), `${Date.now()}-${rumorId.slice(0, 12)}`);
+  await mkdir(dir, { recursive: true });
+  if (expiresAt !== undefined) await writeFile(join(dir, EXPIRY_MARKER), String(expiresAt));
+  return dir;
+}
+
+/**
+ * NIP-40 expiration (unix seconds) recorded for a message directory.
+ */
+export async function readMediaDirExpiry(dir: string): Promise<number | undefined> {
+  try {
+    const value = Number((await readFile(join(dir, EXPIRY_MARKER), "utf-8")).trim());
+    return Number.isFinite(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Creation time (epoch ms) encoded in a message directory name.
+ */
+export function mediaDirCreatedAt(name: string): number | undefined {
+  const match = /^(\d{13})(?:-|$)/.exec(name);
+  return match ? Number(match[1]) : undefined;
+}
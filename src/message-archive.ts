@@ -0,0 +1,251 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { Nip17Signer } from "./signer.js";
+import {
+  appendArchiveLog,
+  readArchiveKeyState,
+  readArchiveLog,
+  writeArchiveKeyState,
+  writeArchiveLog,
+} from "./state-store.js";
+
+/**
+ * Optional per-account archive of every inbound and outbound rumor.
+ *
+ * Records are appended to a local log, each AES-256-GCM encrypted with a
+ * random archive key. That key is stored NIP-44 encrypted to the account's
+ * own pubkey, so only the account key (local or behind a NIP-46 signer) can
+ * open the archive. The whole archive is held in memory once opened.
+ *
+ * Messages with a NIP-40 `expiration` tag are dropped once it passes, and
+ * the log is rewritten without them.
+ */
+
+export type ArchiveDirection = "in" | "out";
+
+/**
+ * "received" for inbound; outbound starts "sent" (a relay accepted it for
+ * at least one recipient) or "queued" (outbox is retrying), and becomes
+ * "failed" when the outbox gives up.
+ */
+export type ArchiveDeliveryStatus = "received" | "sent" | "queued" | "failed";
+
+export interface ArchivedMessage {
+  id: string;
+  direction: ArchiveDirection;
+  /** Peer pubkey for 1:1 DMs, room id for group rooms */
+  conversationId: string;
+  /** Everyone in the conversation except this account */
+  participants: string[];
+  pubkey: string;
+  kind: number;
+  content: string;
+  tags: string[][];
+  createdAt: number;
+  /** When this account sent or received it (unix seconds) */
+  archivedAt: number;
+  status: ArchiveDeliveryStatus;
+}
+
+export interface ArchivedConversation {
+  conversationId: string;
+  participants: string[];
+  messageCount: number;
+  lastMessageAt: number;
+  lastMessage: string;
+}
+
+export interface ArchiveHistoryQuery {
+  limit?: number;
+  /** Only messages created before this unix timestamp */
+  before?: number;
+  /** Only messages created after this unix timestamp */
+  after?: number;
+}
+
+export interface ArchiveSearchQuery extends ArchiveHistoryQuery {
+  conversationId?: string;
+}
+
+export interface Nip17MessageArchive {
+  record: (message: ArchivedMessage) => void;
+  updateStatus: (id: string, status: ArchiveDeliveryStatus) => void;
+  listConversations: () => ArchivedConversation[];
+  getHistory: (conversationId: string, query?: ArchiveHistoryQuery) => ArchivedMessage[];
+  search: (text: string, query?: ArchiveSearchQuery) => ArchivedMessage[];
+  /** Drop expired messages now; resolves to how many were removed. */
+  purgeExpired: () => Promise<number>;
+  close: () => Promise<void>;
+}
+
+type ArchiveRecord =
+  | { type: "message"; message: ArchivedMessage }
+  | { type: "status"; id: string; status: ArchiveDeliveryStatus };
+
+const DEFAULT_QUERY_LIMIT = 50;
+const PURGE_INTERVAL_MS = 60 * 1000;
+
+function isExpired(message: ArchivedMessage, nowSec: number): boolean {
+  const expiration = Number(message.tags.find((t) => t[0] === "expiration")?.[1]);
+  return Number.isFinite(expiration) && expiration <= nowSec;
+}
+
+function encryptRecord(key: Buffer, record: ArchiveRecord): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(record), "utf8"), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64");
+}
+
+function decryptRecord(key: Buffer, line: string): ArchiveRecord {
+  const raw = Buffer.from(line, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, raw.subarray(0, 12));
+  decipher.setAuthTag(raw.subarray(raw.length - 16));
+  const plaintext = Buffer.concat([decipher.update(raw.subarray(12, raw.length - 16)), decipher.final()]);
+  return JSON.parse(plaintext.toString("utf8")) as ArchiveRecord;
+}
+
+async function loadArchiveKey(accountId: string, signer: Nip17Signer): Promise<Buffer> {
+  const saved = await readArchiveKeyState({ accountId });
+  if (saved) {
+    if (saved.pubkey !== signer.publicKey) {
+      throw new Error(`Message archive for ${accountId} belongs to ${saved.pubkey}, not ${signer.publicKey}`);
+    }
+    return Buffer.from(await signer.nip44Decrypt(signer.publicKey, saved.wrappedKey), "hex");
+  }
+  const key = randomBytes(32);
+  await writeArchiveKeyState({
+    accountId,
+    pubkey: signer.publicKey,
+    wrappedKey: await signer.nip44Encrypt(signer.publicKey, key.toString("hex")),
+  });
+  return key;
+}
+
+export async function openMessageArchive(opts: {
+  accountId: string;
+  signer: Nip17Signer;
+  onError?: (error: Error, context: string) => void;
+}): Promise<Nip17MessageArchive> {
+  const { accountId, signer, onError } = opts;
+  const key = await loadArchiveKey(accountId, signer);
+
+  // Insertion order is archive order; history queries sort by createdAt
+  const messages = new Map<string, ArchivedMessage>();
+  const apply = (record: ArchiveRecord) => {
+    if (record.type === "message") {
+      messages.set(record.message.id, record.message);
+    } else {
+      const existing = messages.get(record.id);
+      if (existing) existing.status = record.status;
+    }
+  };
+
+  let unreadable = 0;
+  for (const line of await readArchiveLog({ accountId })) {
+    try {
+      apply(decryptRecord(key, line));
+    } catch {
+      unreadable++;
+    }
+  }
+  if (unreadable > 0) {
+    onError?.(new Error(`Message archive: skipped ${unreadable} unreadable record(s)`), "archive");
+  }
+
+  // Serialize appends so records land in the order they were made
+  let writeChain: Promise<void> = Promise.resolve();
+  const append = (record: ArchiveRecord) => {
+    apply(record);
+    const line = encryptRecord(key, record);
+    writeChain = writeChain
+      .then(() => appendArchiveLog({ accountId, lines: [line] }))
+      .catch((err) => onError?.(err as Error, "archive append"));
+  };
+
+  // Rewrite the log from what is left in memory; status records fold into
+  // their messages
+  const purgeExpired = async (): Promise<number> => {
+    const nowSec = Date.now() / 1000;
+    const expired = [...messages.values()].filter((m) => isExpired(m, nowSec));
+    if (expired.length === 0) return 0;
+    for (const m of expired) messages.delete(m.id);
+    const lines = [...messages.values()].map((message) => encryptRecord(key, { type: "message", message }));
+    writeChain = writeChain
+      .then(() => writeArchiveLog({ accountId, lines }))
+      .catch((err) => onError?.(err as Error, "archive purge"));
+    await writeChain;
+    return expired.length;
+  };
+
+  await purgeExpired();
+  const purgeTimer = setInterval(() => void purgeExpired(), PURGE_INTERVAL_MS);
+  // Don't let the purge timer keep the process alive on its own.
+  if (typeof (purgeTimer as any)?.unref === "function") (purgeTimer as any).unref();
+
+  // Expired messages vanish from queries immediately, not at the next purge
+  const live = () => {
+    const nowSec = Date.now() / 1000;
+    return [...messages.values()].filter((m) => !isExpired(m, nowSec));
+  };
+
+  const inWindow = (m: ArchivedMessage, q?: ArchiveHistoryQuery) =>
+    (q?.before === undefined || m.createdAt < q.before) && (q?.after === undefined || m.createdAt > q.after);
+
+  // Newest `limit` matches, returned oldest first
+  const page = (list: ArchivedMessage[], q?: ArchiveHistoryQuery) =>
+    list
+      .filter((m) => inWindow(m, q))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(-(q?.limit ?? DEFAULT_QUERY_LIMIT));
+
+  return {
+    record: (message) => {
+      if (messages.has(message.id) || isExpired(message, Date.now() / 1000)) return;
+      append({ type: "message", message });
+    },
+    updateStatus: (id, status) => {
+      const existing = messages.get(id);
+      if (!existing || existing.status === status) return;
+      append({ type: "status", id, status });
+    },
+    listConversations: () => {
+      const conversations = new Map<string, ArchivedConversation>();
+      for (const m of live()) {
+        const entry = conversations.get(m.conversationId) ?? {
+          conversationId: m.conversationId,
+          participants: m.participants,
+          messageCount: 0,
+          lastMessageAt: 0,
+          lastMessage: "",
+        };
+        entry.messageCount++;
+        if (m.createdAt >= entry.lastMessageAt) {
+          entry.lastMessageAt = m.createdAt;
+          entry.lastMessage = m.content;
+        }
+        conversations.set(m.conversationId, entry);
+      }
+      return [...conversations.values()].sort((a, b) => b.lastMessageAt - a.lastMessageAt);
+    },
+    getHistory: (conversationId, query) =>
+      page(live().filter((m) => m.conversationId === conversationId), query),
+    search: (text, query) => {
+      // Every whitespace-separated term must appear (case-insensitive)
+      const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+      if (terms.length === 0) return [];
+      return page(
+        live().filter((m) => {
+          if (query?.conversationId && m.conversationId !== query.conversationId) return false;
+          const haystack = m.content.toLowerCase();
+          return terms.every((t) => haystack.includes(t));
+        }),
+        query,
+      );
+    },
+    purgeExpired,
+    close: () => {
+      clearInterval(purgeTimer);
+      return writeChain;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Minimal MIME ⇄ file extension map for the attachment types Nostr clients
+ * actually send. Anything not listed falls back to application/octet-stream
+ * (and no extension) rather than guessing from the MIME subtype.
+ */
+const EXTENSION_BY_MIME: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/avif": ".avif",
+  "image/heic": ".heic",
+  "image/svg+xml": ".svg",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "video/quicktime": ".mov",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/ogg": ".ogg",
+  "audio/wav": ".wav",
+  "audio/webm": ".weba",
+  "application/pdf": ".pdf",
+  "application/json": ".json",
+  "application/zip": ".zip",
+  "text/plain": ".txt",
+  "text/markdown": ".md",
+  "text/csv": ".csv",
+  "text/html": ".html",
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(EXTENSION_BY_MIME).map(([mime, ext]) => [ext, mime])),
+  ".jpeg": "image/jpeg",
+  ".jpe": "image/jpeg",
+  ".htm": "text/html",
+  ".markdown": "text/markdown",
+  ".log": "text/plain",
+};
+
+export const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+/**
+ * Extension (with leading dot) for a MIME type, or "" when unknown.
+ * Parameters such as `; charset=utf-8` are ignored.
+ */
+export function extensionForMimeType(mimeType: string | undefined): string {
+  if (!mimeType) return "";
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  return EXTENSION_BY_MIME[base] ?? "";
+}
+
+/**
+ * MIME type for a file name or path based on its extension.
+ */
+export function mimeTypeForFileName(fileName: string): string {
+  const match = /\.[^./\\]+$/.exec(fileName.toLowerCase());
+  if (!match) return DEFAULT_MIME_TYPE;
+  return MIME_BY_EXTENSION[match[0]] ?? DEFAULT_MIME_TYPE;
+}
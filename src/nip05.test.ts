@@ -0,0 +1,68 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { fetchNip05Pubkey, isNip05Identifier, verifyNip05, type Nip05Fetcher } from "./nip05.js";
+
+const ALICE = "a".repeat(64);
+
+// Stand-in for https://example.com/.well-known/nostr.json
+let server: Server;
+let wellKnown: Nip05Fetcher;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const name = new URL(req.url ?? "/", "http://x").searchParams.get("name");
+    if (name === "broken") {
+      res.writeHead(500);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ names: name === "alice" ? { alice: ALICE.toUpperCase() } : {} }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  wellKnown = async (url) => {
+    const response = await fetch(url.replace("https://example.com", base));
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.text();
+  };
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("fetchNip05Pubkey", () => {
+  it("resolves a name from the domain's nostr.json over HTTPS", async () => {
+    const urls: string[] = [];
+    const pubkey = await fetchNip05Pubkey("Alice@Example.com", (url) => {
+      urls.push(url);
+      return wellKnown(url);
+    });
+    expect(pubkey).toBe(ALICE);
+    expect(urls).toEqual(["https://example.com/.well-known/nostr.json?name=alice"]);
+  });
+
+  it("returns null for a name the domain doesn't list", async () => {
+    expect(await fetchNip05Pubkey("bob@example.com", wellKnown)).toBeNull();
+  });
+
+  it("throws when the domain can't answer", async () => {
+    await expect(fetchNip05Pubkey("broken@example.com", wellKnown)).rejects.toThrow(/HTTP 500/);
+  });
+
+  it("accepts only real domains", async () => {
+    expect(isNip05Identifier("alice@example.com")).toBe(true);
+    expect(isNip05Identifier("alice@localhost")).toBe(false);
+    expect(isNip05Identifier("alice@127.0.0.1")).toBe(false);
+    expect(isNip05Identifier("alice@example.com:8080")).toBe(false);
+    await expect(fetchNip05Pubkey("alice@localhost", wellKnown)).rejects.toThrow(/Invalid NIP-05/);
+  });
+});
+
+describe("verifyNip05", () => {
+  it("compares the listed key with the sender's", async () => {
+    expect(await verifyNip05("alice@example.com", ALICE, wellKnown)).toBe("verified");
+    expect(await verifyNip05("alice@example.com", "b".repeat(64), wellKnown)).toBe("mismatch");
+    expect(await verifyNip05("broken@example.com", ALICE, wellKnown)).toBe("unreachable");
+  });
+});
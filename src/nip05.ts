@@ -0,0 +1,74 @@
+import { DEFAULT_MEDIA_LIMITS, fetchMedia, type MediaLimits } from "./media-fetch.js";
+
+/**
+ * NIP-05 identifier lookups (`name@domain` → pubkey via
+ * `https://domain/.well-known/nostr.json?name=name`).
+ *
+ * Identifiers come from strangers' kind 0 profiles, so the lookup goes
+ * through the same guarded fetch as inbound media: HTTPS only, no private
+ * or loopback destinations, size- and time-limited.
+ */
+
+const NIP05_LIMITS: MediaLimits = {
+  ...DEFAULT_MEDIA_LIMITS,
+  maxBytes: 64 * 1024,
+  fetchTimeoutSeconds: 5,
+  allowPrivateNetwork: false,
+};
+
+/** Result of checking a NIP-05 identifier against an expected pubkey. */
+export type Nip05Status = "verified" | "mismatch" | "unreachable";
+
+/**
+ * Fetches a nostr.json URL and returns the body. Throws when the document
+ * can't be retrieved. Replaceable so tests can serve `.well-known` locally.
+ */
+export type Nip05Fetcher = (url: string) => Promise<string>;
+
+// NIP-05: redirects must be ignored
+const guardedFetch: Nip05Fetcher = async (url) =>
+  (await fetchMedia(url, NIP05_LIMITS, { maxRedirects: 0 })).data.toString("utf8");
+
+const IDENTIFIER_RE = /^(?:([a-z0-9._-]+)@)?([a-z0-9.-]+\.[a-z]{2,})$/i;
+
+export function isNip05Identifier(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed.includes("@") && IDENTIFIER_RE.test(trimmed);
+}
+
+function nip05Url(identifier: string): { url: string; name: string } | null {
+  const match = IDENTIFIER_RE.exec(identifier.trim());
+  if (!match) return null;
+  const name = (match[1] ?? "_").toLowerCase();
+  const host = match[2].toLowerCase();
+  return { url: `https://${host}/.well-known/nostr.json?name=${encodeURIComponent(name)}`, name };
+}
+
+/**
+ * Resolve a NIP-05 identifier to a hex pubkey. Returns null when the domain
+ * doesn't list the name; throws when the domain can't be reached or answers
+ * with something that isn't a nostr.json document.
+ */
+export async function fetchNip05Pubkey(identifier: string, fetcher: Nip05Fetcher = guardedFetch): Promise<string | null> {
+  const target = nip05Url(identifier);
+  if (!target) throw new Error(`Invalid NIP-05 identifier: ${identifier}`);
+
+  let body: { names?: Record<string, unknown> };
+  try {
+    body = JSON.parse(await fetcher(target.url));
+  } catch (err) {
+    throw new Error(`NIP-05 lookup for ${identifier} failed: ${(err as Error).message}`);
+  }
+  const pubkey = body?.names?.[target.name];
+  if (typeof pubkey !== "string" || !/^[0-9a-f]{64}$/i.test(pubkey)) return null;
+  return pubkey.toLowerCase();
+}
+
+export async function verifyNip05(identifier: string, pubkey: string, fetcher?: Nip05Fetcher): Promise<Nip05Status> {
+  try {
+    const resolved = await fetchNip05Pubkey(identifier, fetcher);
+    return resolved === pubkey.toLowerCase() ? "verified" : "mismatch";
+  } catch {
+    return "unreachable";
+  }
+}
@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateSecretKey, getPublicKey, type Event, type Filter } from "nostr-tools";
+import { bytesToHex } from "nostr-tools/utils";
+import { formatOwnerNotice, openPairingBook, reactionDecision } from "./owner-pairing.js";
+
+/**
+ * Stand-in for nostr-tools' SimplePool: one in-process relay that keeps
+ * every event and hands matching ones to subscriptions, old and new.
+ */
+const relay = vi.hoisted(() => {
+  const events: Event[] = [];
+  const subs = new Set<{ filter: Filter; onevent: (event: Event) => void }>();
+  const matches = (filter: Filter, event: Event) =>
+    (!filter.kinds || filter.kinds.includes(event.kind))
+    && (!filter.authors || filter.authors.includes(event.pubkey))
+    && (!filter["#p"] || event.tags.some((t) => t[0] === "p" && filter["#p"]!.includes(t[1])));
+
+  class StandInPool {
+    subscribeMany(_relays: string[], filter: Filter, params: { onevent: (event: Event) => void; oneose?: () => void }) {
+      const sub = { filter, onevent: params.onevent };
+      subs.add(sub);
+      for (const event of events.filter((e) => matches(filter, e))) params.onevent(event);
+      params.oneose?.();
+      return { close: () => subs.delete(sub) };
+    }
+    publish(relays: string[], event: Event) {
+      events.push(event);
+      for (const sub of [...subs]) if (matches(sub.filter, event)) sub.onevent(event);
+      return relays.map(async () => "");
+    }
+    async querySync(_relays: string[], filter: Filter) {
+      return events.filter((e) => matches(filter, e));
+    }
+  }
+
+  return { events, subs, StandInPool };
+});
+
+vi.mock("nostr-tools", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("nostr-tools")>()),
+  SimplePool: relay.StandInPool,
+}));
+
+const RELAYS = ["wss://relay.test"];
+
+type Bus = Awaited<ReturnType<typeof import("./nip17-bus.js")["startNip17Bus"]>>;
+const started: Bus[] = [];
+
+// A fresh module graph per bus is what a process restart looks like: the
+// in-memory rumor log and dedupe sets start empty, files on disk remain
+async function startBus(options: Partial<Parameters<typeof import("./nip17-bus.js")["startNip17Bus"]>[0]> & { sk?: Uint8Array } = {}) {
+  vi.resetModules();
+  const { startNip17Bus } = await import("./nip17-bus.js");
+  const sk = options.sk ?? generateSecretKey();
+  const bus = await startNip17Bus({
+    privateKey: bytesToHex(sk),
+    relays: RELAYS,
+    discoveryRelays: RELAYS,
+    publishRelayList: false,
+    onMessage: async () => {},
+    ...options,
+  });
+  started.push(bus);
+  return bus;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  for (const bus of started.splice(0)) bus.close();
+  relay.events.length = 0;
+  relay.subs.clear();
+});
+
+describe("reactions", () => {
+  it("surfaces a reaction to our message, cut to one emoji", async () => {
+    const friendSk = generateSecretKey();
+    const onReaction = vi.fn(async () => {});
+    const bot = await startBus({ accountId: "reaction-bot", onReaction });
+    const friend = await startBus({ sk: friendSk });
+
+    const rumorId = await bot.sendDm(getPublicKey(friendSk), "hello");
+    await friend.sendReaction(bot.publicKey, rumorId, "👍🏽 and here is a whole paragraph");
+
+    await vi.waitFor(() => expect(onReaction).toHaveBeenCalledOnce());
+    expect(onReaction).toHaveBeenCalledWith(
+      getPublicKey(friendSk),
+      "👍🏽",
+      expect.objectContaining({ id: rumorId, content: "hello" }),
+      expect.objectContaining({ chatType: "direct" }),
+    );
+  });
+
+  it("drops reactions from senders the DM policy drops, and rate-limits the rest", async () => {
+    const friendSk = generateSecretKey();
+    const strangerSk = generateSecretKey();
+    const onReaction = vi.fn(async () => {});
+    const errors: string[] = [];
+    const bot = await startBus({
+      accountId: "reaction-policy",
+      onReaction,
+      senderStanding: (pubkey) => (pubkey === getPublicKey(friendSk) ? "accepted" : "dropped"),
+      antiSpam: { senderRatePerMinute: 1 },
+      onError: (error, context) => errors.push(`${context}: ${error.message}`),
+    });
+    const friend = await startBus({ sk: friendSk });
+    const stranger = await startBus({ sk: strangerSk });
+
+    const toFriend = await bot.sendDm(getPublicKey(friendSk), "hello");
+    const toStranger = await bot.sendDm(getPublicKey(strangerSk), "hello");
+    // The bus only takes rumors newer than the last one it handled, so each
+    // reaction goes out a second after the one before
+    vi.useFakeTimers({ toFake: ["Date"] });
+    for (const [from, target, emoji] of [[stranger, toStranger, "👍"], [friend, toFriend, "👍"], [friend, toFriend, "👎"]] as const) {
+      vi.setSystemTime(Date.now() + 1000);
+      await from.sendReaction(bot.publicKey, target, emoji);
+    }
+
+    await vi.waitFor(() => expect(errors.filter((e) => e.startsWith("anti-spam"))).toHaveLength(1));
+    expect(errors.some((e) => e.startsWith("dm-policy") && e.includes(getPublicKey(strangerSk)))).toBe(true);
+    expect(onReaction).toHaveBeenCalledOnce();
+    expect(onReaction.mock.calls[0][1]).toBe("👍");
+  });
+
+  describe("deciding a pairing request by reaction after a restart", () => {
+    async function reactToNoticeAfterRestart(accountId: string, restartAfterMs: number, withIsOwnRumor: boolean) {
+      const botSk = generateSecretKey();
+      const ownerSk = generateSecretKey();
+      const requester = getPublicKey(generateSecretKey());
+
+      const book = await openPairingBook({ accountId });
+      const request = book.add({ requester, firstMessage: "hi, can I talk to your bot?" });
+      const before = await startBus({ accountId, sk: botSk });
+      const noticeId = await before.sendDm(getPublicKey(ownerSk), formatOwnerNotice(request));
+      book.addNotice(requester, noticeId);
+      await book.close();
+      before.close();
+
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(Date.now() + restartAfterMs);
+      const reopened = await openPairingBook({ accountId });
+      await startBus({
+        accountId,
+        sk: botSk,
+        isOwnRumor: withIsOwnRumor ? (id) => reopened.find({ noticeId: id }) !== undefined : undefined,
+        onReaction: async (_sender, emoji, target) => {
+          const decision = reactionDecision(emoji);
+          const pending = reopened.find({ noticeId: target.id });
+          if (decision && pending) reopened.decide(pending.requester, decision);
+        },
+      });
+      const owner = await startBus({ sk: ownerSk });
+      vi.setSystemTime(Date.now() + 1000);
+      await owner.sendReaction(getPublicKey(botSk), noticeId, "✅");
+
+      await vi.waitFor(() => expect(reopened.status(requester)).toBe("approved"));
+    }
+
+    it("finds the notice in the sent record", async () => {
+      await reactToNoticeAfterRestart("pairing-restart", 60_000, false);
+    });
+
+    it("finds a notice older than the sent record through isOwnRumor", async () => {
+      await reactToNoticeAfterRestart("pairing-old-notice", 3 * 24 * 60 * 60 * 1000, true);
+    });
+  });
+});
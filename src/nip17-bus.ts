@@ -1,29 +1,60 @@
 import {
   SimplePool,
   getPublicKey,
-  finalizeEvent,
   nip19,
   type Event,
 } from "nostr-tools";
-import { wrapEvent, unwrapEvent } from "nostr-tools/nip59";
+import type { SubCloser } from "nostr-tools/abstract-pool";
+import { createHash } from "node:crypto";
+import { rm } from "node:fs/promises";
 import {
   readNostrBusState,
   writeNostrBusState,
   computeSinceTimestamp,
 } from "./state-store.js";
 import { getRecipientDmRelays } from "./relay-cache.js";
+import { getSenderProfile, type SenderProfile } from "./profile-cache.js";
+import { createInboundGate, type AntiSpamCounts, type AntiSpamOptions } from "./inbound-gate.js";
+import { getPow } from "nostr-tools/nip13";
+import { trackWebOfTrust, type WebOfTrustSnapshot } from "./web-of-trust.js";
 import {
-  parseImetaTags,
-  fetchAndDecryptBlob,
-  mediaToDataUrl,
-  deriveConversationKey,
-  type MediaAttachment,
-} from "./media-handler.js";
+  DEFAULT_MEDIA_LIMITS,
+  isMimeTypeAllowed,
+  type MediaLimits,
+  type MediaRejection,
+} from "./media-fetch.js";
+import { openOutbox, type Nip17Outbox } from "./outbox.js";
+import {
+  openMessageArchive,
+  type ArchivedConversation,
+  type ArchivedMessage,
+  type ArchiveHistoryQuery,
+  type ArchiveSearchQuery,
+  type Nip17MessageArchive,
+} from "./message-archive.js";
+import { buildTranscripts, fetchHistoryRumors, type Nip17Transcript } from "./history-sync.js";
+import { recordRumor, lookupRumor, type RecordedRumor } from "./rumor-log.js";
+import { openSentRumorLog, type SentRumorLog } from "./sent-rumors.js";
+import { parseImetaTags, type MediaAttachment } from "./media-handler.js";
 import {
   parseKind15Tags,
-  fetchAndDecryptKind15File,
+  encryptAesGcm,
+  buildKind15Tags,
+  sha256Hex,
   type Kind15FileMetadata,
 } from "./kind15-handler.js";
+import { DEFAULT_BLOSSOM_SERVERS, getUserServerList, uploadBlobToServers } from "./blossom.js";
+import { fetchAttachment, originalNameFromUrl, type EncryptedAttachment } from "./attachment-fetcher.js";
+import { createMessageMediaDir } from "./media-store.js";
+import {
+  createLocalSigner,
+  connectBunkerSigner,
+  createRumorForSigner,
+  wrapRumorWithSigner,
+  unwrapGiftWrapWithSeal,
+  type Nip17Rumor,
+  type Nip17Signer,
+} from "./signer.js";
 
 export const DEFAULT_RELAYS = ["wss://relay.damus.io", "wss://nos.lol"];
 
@@ -49,16 +80,118 @@ const STATE_PERSIST_DEBOUNCE_MS = 5000;
 // Types
 // ============================================================================
 
-export interface DecryptedMedia {
-  dataUrl: string;
+/** An inbound attachment, decrypted and written under the OpenClaw media root. */
+export interface InboundAttachment {
+  path: string;
+  size: number;
+  /** SHA-256 of the decrypted file */
+  sha256: string;
   mimeType?: string;
+  /** File name suggested by the sender's URL, when it isn't a bare hash */
+  originalName?: string;
   originalUrl: string;
   blurhash?: string;
   dimensions?: { width: number; height: number };
 }
 
-export interface Nip17BusOptions {
-  privateKey: string;
+/** A file to send as a NIP-17 kind 15 message (encrypted + uploaded to Blossom). */
+export interface OutboundFile {
+  data: Buffer;
+  mimeType: string;
+  fileName?: string;
+  dimensions?: { width: number; height: number };
+  blurhash?: string;
+}
+
+/**
+ * Per-rumor details passed alongside each inbound message.
+ */
+export interface Nip17InboundMeta {
+  rumorId: string;
+  createdAt: number;
+  chatType: "direct" | "group";
+  /**
+   * Stable conversation id: the sender's pubkey for 1:1 chats, or
+   * deriveRoomId(...) of the full participant set for group rooms.
+   */
+  conversationId: string;
+  /** Everyone in the room except this bot (the sender included). */
+  participants: string[];
+  /**
+   * The message this rumor replies to (NIP-17 `e` tag). `author`/`content`
+   * are only present when the target is in the local rumor log.
+   */
+  replyTo?: { id: string; author?: string; content?: string; createdAt?: number };
+  /**
+   * Current NIP-17 conversation subject: this rumor's `subject` tag, or the
+   * most recent one seen in the same conversation.
+   */
+  subject?: string;
+  /** Sender's kind 0 profile and NIP-05 verification (inbound messages only). */
+  sender?: SenderProfile;
+  /** NIP-13 difficulty, the higher of the seal id's and the rumor id's (inbound messages only). */
+  pow?: number;
+  /** Attachments that were not fetched or failed to decrypt, with the reason */
+  mediaRejections?: MediaRejection[];
+  /** NIP-40 `expiration` of the rumor (unix seconds), when the sender set one */
+  expiresAt?: number;
+}
+
+/** Threading and lifetime options for outbound rumors. */
+export interface Nip17SendOptions {
+  /** Rumor id this message replies to — adds `["e", id, "", "reply"]`. */
+  replyTo?: string;
+  /** Conversation subject to echo — adds `["subject", subject]`. */
+  subject?: string;
+  /**
+   * Seconds until the message expires — adds a NIP-40 `expiration` tag to
+   * the rumor and every gift wrap. Combined with the bus's `messageTtl`,
+   * the shorter lifetime wins.
+   */
+  ttlSeconds?: number;
+}
+
+/** NIP-01 kind:0 metadata fields the bus maintains for the bot. */
+export interface Nip17Profile {
+  name?: string;
+  display_name?: string;
+  about?: string;
+  picture?: string;
+  banner?: string;
+  website?: string;
+  nip05?: string;
+  lud16?: string;
+  /** NIP-24: marks the account as automated. */
+  bot?: boolean;
+}
+
+/** Callbacks of a publisher; replaced when a bus adopts it (see `setHooks`). */
+export interface Nip17PublisherHooks {
+  /**
+   * NIP-40 lifetime in seconds for outbound messages to these recipients (a
+   * peer, or every member of a group room). Undefined or 0: no expiration.
+   */
+  messageTtl?: (recipients: string[]) => number | undefined;
+  /**
+   * A queued message never reached a recipient on any relay before the
+   * outbox deadline. Called once per recipient.
+   */
+  onDeliveryFailed?: (failure: Nip17DeliveryFailure) => void;
+  onError?: (error: Error, context: string) => void;
+  onConnect?: (relay: string) => void;
+}
+
+export interface Nip17PublisherOptions extends Nip17PublisherHooks {
+  /** Account key (nsec or hex). Not needed when `bunker` or `signer` is set. */
+  privateKey?: string;
+  /**
+   * NIP-46 remote signer (bunker:// URL or NIP-05 bunker identifier). All
+   * signing and NIP-44 encryption goes through the bunker; the account key
+   * never has to be on this host.
+   */
+  bunker?: string;
+  /** Pre-built signer; takes precedence over `bunker` and `privateKey`. */
+  signer?: Nip17Signer;
   relays?: string[];
   accountId?: string;
   /**
@@ -75,24 +208,186 @@ export interface Nip17BusOptions {
    * bot's own configured relays.
    */
   discoveryRelays?: string[];
+  /**
+   * Blossom servers (BUD-01/02) used to host encrypted outbound files.
+   * Defaults to DEFAULT_BLOSSOM_SERVERS. Uploads go to every server; the
+   * first success becomes the kind 15 URL and the rest become `fallback` tags.
+   */
+  blossomServers?: string[];
+  /**
+   * Publish the Blossom server list as kind:10063 (BUD-03) on startup
+   * alongside the kind:10050. Defaults to `true` when `blossomServers` is set.
+   */
+  publishServerList?: boolean;
+  /**
+   * Kind:0 profile to publish on startup. Only published when it differs
+   * from what the relays currently hold. Omit to leave the profile alone.
+   */
+  profile?: Nip17Profile;
+  /**
+   * How long undelivered gift wraps stay in the outbox being retried before
+   * they count as failed. Defaults to DEFAULT_OUTBOX_DEADLINE_MINUTES.
+   */
+  outboxDeadlineMinutes?: number;
+  /**
+   * Keep an encrypted local archive of every inbound and outbound rumor,
+   * queryable through the handle's history/search methods. Off by default.
+   */
+  archive?: boolean;
+}
+
+/**
+ * How the DM policy treats a sender: served by the agent, only taken as a
+ * pairing request, or ignored.
+ */
+export type SenderStanding = "accepted" | "pairing" | "dropped";
+
+/**
+ * The message of ours a reaction points at. After a restart the in-memory
+ * rumor log is empty, and a rumor known only from the sent record (or
+ * `isOwnRumor`) comes with its id alone.
+ */
+export type ReactedRumor = Pick<RecordedRumor, "id"> & Partial<RecordedRumor>;
+
+export interface Nip17BusOptions extends Nip17PublisherOptions {
+  /**
+   * Publisher to subscribe on instead of starting a new one, e.g. the one a
+   * send-only caller started before the gateway. Its signer, relays and
+   * outbox are used as they are (the publisher options here are ignored, the
+   * hooks replace its own), and closing the bus closes it.
+   */
+  publisher?: Nip17Publisher;
+  /**
+   * Inbound gating before onMessage: proof of work for unknown senders, rate
+   * limits and a concurrency cap. Unset fields don't gate.
+   */
+  antiSpam?: AntiSpamOptions;
+  /**
+   * Senders exempt from the proof-of-work requirement (allowlisted, known
+   * contacts). Rate limits still apply to them.
+   */
+  isKnownSender?: (pubkey: string) => boolean;
+  /**
+   * What the DM policy will do with a sender's message, asked before
+   * anything else happens to it. A "dropped" message is discarded here: not
+   * stored, rate-limited, answered or looked up (a stranger's profile, and
+   * the URL in it, is theirs to choose). Only "accepted" senders get their
+   * attachments fetched and anti-spam auto-replies. Defaults to "accepted".
+   */
+  senderStanding?: (senderPubkey: string, meta: Nip17InboundMeta) => SenderStanding | Promise<SenderStanding>;
+  /**
+   * Whether this account sent the rumor `id`, for messages older than the
+   * bus's own records (e.g. pairing notices, which live as long as their
+   * request). Reactions to them reach onReaction with only the id.
+   */
+  isOwnRumor?: (id: string) => boolean;
+  /**
+   * Keep an owner's follow graph (kind 3) and mute list (kind 10000) fresh
+   * over this bus's pool, for `dmPolicy: "follows"`. `owner` is a hex pubkey.
+   */
+  webOfTrust?: { owner: string; depth?: number; refreshMinutes?: number };
+  /** Limits for fetching inbound attachments; unset fields use DEFAULT_MEDIA_LIMITS. */
+  media?: Partial<MediaLimits>;
+  /**
+   * Replies (and reactions) to a rumor that carries a NIP-40 expiration
+   * expire after the same lifetime. Defaults to `true`.
+   */
+  inheritMessageTtl?: boolean;
   onMessage: (
     senderPubkey: string,
     text: string,
     reply: (text: string) => Promise<void>,
-    media: DecryptedMedia[] | undefined,
+    media: InboundAttachment[] | undefined,
     react: (emoji: string) => Promise<void>,
+    replyFile: (file: OutboundFile) => Promise<void>,
+    meta: Nip17InboundMeta,
   ) => Promise<void>;
-  onError?: (error: Error, context: string) => void;
-  onConnect?: (relay: string) => void;
+  /**
+   * NIP-25 reaction (kind 7) from a user to a message this bot sent.
+   * Reactions to anything else are dropped. `emoji` is the reaction content
+   * cut to one character or `:shortcode:` ("+" when the client sent an
+   * empty reaction). `target` carries the message's content when it is
+   * still in the rumor log.
+   */
+  onReaction?: (
+    senderPubkey: string,
+    emoji: string,
+    target: ReactedRumor,
+    meta: Nip17InboundMeta,
+  ) => Promise<void>;
+  /**
+   * A kind 14/15 rumor signed with this account's key that this process did
+   * not publish — someone using the same key in another client. `meta`
+   * describes the conversation it was sent into (`participants` are the
+   * peers). Without this callback such rumors are ignored like any self-copy.
+   */
+  onOperatorMessage?: (text: string, meta: Nip17InboundMeta) => Promise<void>;
   onDisconnect?: (relay: string) => void;
   onEose?: (relay: string) => void;
 }
 
-export interface Nip17BusHandle {
+export interface Nip17DeliveryFailure {
+  rumorId: string;
+  rumorKind: number;
+  recipient: string;
+  /** Every participant of the conversation (the recipient's room) */
+  participants: string[];
+  subject?: string;
+  /** First characters of the undelivered message */
+  preview: string;
+  lastError?: string;
+}
+
+/** Connection state of one configured relay, as seen by the bus. */
+export interface Nip17RelayStatus {
+  url: string;
+  connected: boolean;
+  /** NIP-42: "pending" between signing a challenge and the relay accepting it. */
+  auth: "not-required" | "pending" | "authenticated" | "rejected";
+  lastConnectedAt: number | null;
+  lastEoseAt: number | null;
+  lastEventAt: number | null;
+  reconnectCount: number;
+  lastCloseReason: string | null;
+}
+
+/** Outbound half of a bus: sends, relay status and the archive. */
+export interface Nip17Publisher {
   close: () => void;
   publicKey: string;
-  sendDm: (toPubkey: string, text: string) => Promise<void>;
-  sendReaction: (toPubkey: string, rumorId: string, emoji: string) => Promise<void>;
+  /** Replace the callbacks given at start; a bus adopting the publisher does. */
+  setHooks: (hooks: Nip17PublisherHooks) => void;
+  /** Per-relay connection state, in configured relay order. */
+  getRelayStatus: () => Nip17RelayStatus[];
+  /** Wraps still being retried, and messages that missed their deadline. */
+  getOutboxStatus: () => { pending: number; failed: number };
+  /**
+   * Message archive queries. Throw unless the publisher was started with
+   * `archive: true`.
+   */
+  listConversations: () => ArchivedConversation[];
+  getHistory: (conversationId: string, query?: ArchiveHistoryQuery) => ArchivedMessage[];
+  searchMessages: (text: string, query?: ArchiveSearchQuery) => ArchivedMessage[];
+  /**
+   * Rebuild per-conversation transcripts (both directions) from the gift
+   * wraps still on our relays, covering the last `days` days. Recovered
+   * messages are added to the archive when it is enabled.
+   */
+  syncHistory: (opts?: { days?: number }) => Promise<Nip17Transcript[]>;
+  /**
+   * `to` may be a single pubkey or every participant of a group room.
+   * Each send resolves to the id of the published rumor.
+   */
+  sendDm: (to: string | string[], text: string, opts?: Nip17SendOptions) => Promise<string>;
+  sendReaction: (to: string | string[], rumorId: string, emoji: string) => Promise<string>;
+  sendFile: (to: string | string[], file: OutboundFile, opts?: Nip17SendOptions) => Promise<string>;
+}
+
+export interface Nip17BusHandle extends Nip17Publisher {
+  /** Last resolved web of trust, or null when not configured or never fetched. */
+  getWebOfTrust: () => WebOfTrustSnapshot | null;
+  /** Inbound gate decisions since start (see `antiSpam`). */
+  getAntiSpamStatus: () => AntiSpamCounts;
 }
 
 // ============================================================================
@@ -122,9 +417,8 @@ export function normalizePubkey(input: string): string {
   if (trimmed.startsWith("npub1")) {
     const decoded = nip19.decode(trimmed);
     if (decoded.type !== "npub") throw new Error("Invalid npub key");
-    return Array.from(decoded.data as unknown as Uint8Array)
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
+    // nostr-tools 2.x decodes npub to a hex string, not bytes
+    return decoded.data.toLowerCase();
   }
   if (!/^[0-9a-fA-F]{64}$/.test(trimmed))
     throw new Error("Pubkey must be 64 hex chars or npub format");
@@ -144,52 +438,84 @@ export function isValidPubkey(input: string): boolean {
   return /^[0-9a-fA-F]{64}$/.test(trimmed);
 }
 
+// Longest custom emoji shortcode (NIP-30) passed on whole
+const MAX_SHORTCODE_LENGTH = 32;
+
+/**
+ * A reaction's content as shown to the agent: "+" when empty, a NIP-30
+ * `:shortcode:` as is, anything else cut to its first character (grapheme),
+ * so a "reaction" can't carry a message.
+ */
+function reactionEmoji(content: string): string {
+  const trimmed = content.trim();
+  if (!trimmed) return "+";
+  if (trimmed.length <= MAX_SHORTCODE_LENGTH + 2 && /^:[\w-]+:$/.test(trimmed)) return trimmed;
+  const [first] = new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(trimmed);
+  return first.segment;
+}
+
+/** NIP-40 `expiration` tag value (unix seconds), if present and numeric. */
+function parseExpiration(tags: string[][] | undefined): number | undefined {
+  const value = Number((tags || []).find((t) => t[0] === "expiration")?.[1]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Derive a stable room id from a NIP-17 chat room's participant set
+ * (author + every `p` tag). Order-independent, so every member of the room
+ * computes the same id regardless of who sent the message.
+ */
+export function deriveRoomId(participants: string[]): string {
+  const sorted = [...new Set(participants.map((p) => p.toLowerCase()))].sort();
+  return createHash("sha256").update(sorted.join(",")).digest("hex").slice(0, 32);
+}
+
 // ============================================================================
-// Publish own kind:10050 (NIP-17 DM relay list)
+// Publish own kind:0 (profile), kind:10050 (NIP-17 DM relay list) and
+// kind:10063 (Blossom servers)
 // ============================================================================
 
+/** Union of discovery + own relays, deduplicated by normalized URL. */
+function broadcastTargets(discoveryRelays: string[], ownRelays: string[]): string[] {
+  const normalize = (u: string) => u.replace(/\/+$/, "").toLowerCase();
+  const seen = new Set<string>();
+  const targets: string[] = [];
+  for (const r of [...discoveryRelays, ...ownRelays]) {
+    const key = normalize(r);
+    if (!seen.has(key)) {
+      seen.add(key);
+      targets.push(r);
+    }
+  }
+  return targets;
+}
+
 /**
- * Sign and publish this bot's kind:10050 to a wide set of relays so senders
- * can find which relays the bot is listening on.
- *
- * kind:10050 is a NIP-09 replaceable event — re-publishing on every bus
- * startup just bumps `created_at` and harmlessly replaces any prior copy.
+ * Sign and broadcast one of this bot's replaceable events (profile, relay
+ * list, server list) to the union of discovery + own relays.
  *
  * Per-relay failures are logged via onError but do not throw: this is a
  * best-effort broadcast. Some relays (chat-only HAVENs, signup-required
  * relays) will always reject these events; that's fine as long as enough
  * other relays accept them.
  */
-async function publishOwnRelayList(
+async function broadcastReplaceableEvent(
   pool: SimplePool,
-  sk: Uint8Array,
-  pk: string,
+  signer: Nip17Signer,
+  template: { kind: number; tags: string[][]; content: string },
   ownRelays: string[],
   discoveryRelays: string[],
+  context: string,
   onError?: (error: Error, context: string) => void,
 ): Promise<void> {
-  const event = finalizeEvent(
-    {
-      kind: 10050,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: ownRelays.map((r) => ["relay", r]),
-      content: "",
-    },
-    sk,
-  );
-
-  // Union of discovery + own relays, deduplicated by normalized URL.
-  const normalize = (u: string) => u.replace(/\/+$/, "").toLowerCase();
-  const seen = new Set<string>();
-  const targets: string[] = [];
-  for (const r of [...discoveryRelays, ...ownRelays]) {
-    const key = normalize(r);
-    if (!seen.has(key)) {
-      seen.add(key);
-      targets.push(r);
-    }
-  }
+  const pk = signer.publicKey;
+  const { kind } = template;
+  const event = await signer.signEvent({
+    ...template,
+    created_at: Math.floor(Date.now() / 1000),
+  });
 
+  const targets = broadcastTargets(discoveryRelays, ownRelays);
   if (targets.length === 0) return;
 
   const results = await Promise.allSettled(pool.publish(targets, event));
@@ -201,18 +527,107 @@ async function publishOwnRelayList(
   });
   if (failures.length > 0 && failures.length === targets.length) {
     onError?.(
-      new Error(`kind:10050 publish failed on all ${targets.length} relays for ${pk.slice(0, 12)}…: ${failures.join("; ")}`),
-      "publish-relay-list",
+      new Error(`kind:${kind} publish failed on all ${targets.length} relays for ${pk.slice(0, 12)}…: ${failures.join("; ")}`),
+      context,
     );
   } else if (failures.length > 0) {
     // Partial success is normal; log at info-level via onError with a non-fatal context.
     onError?.(
-      new Error(`kind:10050 published to ${targets.length - failures.length}/${targets.length} relays (${failures.length} rejections expected for chat-only/signup relays)`),
-      "publish-relay-list-partial",
+      new Error(`kind:${kind} published to ${targets.length - failures.length}/${targets.length} relays (${failures.length} rejections expected for chat-only/signup relays)`),
+      `${context}-partial`,
     );
   }
 }
 
+/**
+ * Publish this bot's kind:10050 so senders can find which relays the bot is
+ * listening on.
+ *
+ * kind:10050 is a NIP-09 replaceable event — re-publishing on every bus
+ * startup just bumps `created_at` and harmlessly replaces any prior copy.
+ */
+async function publishOwnRelayList(
+  pool: SimplePool,
+  signer: Nip17Signer,
+  ownRelays: string[],
+  discoveryRelays: string[],
+  onError?: (error: Error, context: string) => void,
+): Promise<void> {
+  await broadcastReplaceableEvent(
+    pool,
+    signer,
+    { kind: 10050, tags: ownRelays.map((r) => ["relay", r]), content: "" },
+    ownRelays,
+    discoveryRelays,
+    "publish-relay-list",
+    onError,
+  );
+}
+
+/**
+ * Publish this bot's kind:10063 (BUD-03 user server list) so clients know
+ * where the bot's uploaded blobs live and can resolve them by hash.
+ */
+async function publishOwnServerList(
+  pool: SimplePool,
+  signer: Nip17Signer,
+  servers: string[],
+  ownRelays: string[],
+  discoveryRelays: string[],
+  onError?: (error: Error, context: string) => void,
+): Promise<void> {
+  if (servers.length === 0) return;
+  await broadcastReplaceableEvent(
+    pool,
+    signer,
+    { kind: 10063, tags: servers.map((s) => ["server", s]), content: "" },
+    ownRelays,
+    discoveryRelays,
+    "publish-server-list",
+    onError,
+  );
+}
+
+/**
+ * Publish this bot's kind:0 profile, but only when it differs from what the
+ * relays already hold. Fields set by other clients (and not in `profile`)
+ * are preserved so a hand-edited profile isn't clobbered on every restart.
+ */
+async function publishOwnProfile(
+  pool: SimplePool,
+  signer: Nip17Signer,
+  profile: Nip17Profile,
+  ownRelays: string[],
+  discoveryRelays: string[],
+  onError?: (error: Error, context: string) => void,
+): Promise<void> {
+  const targets = broadcastTargets(discoveryRelays, ownRelays);
+  if (targets.length === 0) return;
+
+  const existing = await pool.querySync(targets, { kinds: [0], authors: [signer.publicKey] });
+  const latest = existing.sort((a, b) => b.created_at - a.created_at)[0];
+  let current: Record<string, unknown> = {};
+  if (latest) {
+    try { current = JSON.parse(latest.content) ?? {}; } catch { current = {}; }
+  }
+
+  const wanted = Object.fromEntries(
+    Object.entries(profile).filter(([, value]) => value !== undefined),
+  );
+  const changed = Object.entries(wanted).some(([key, value]) => current[key] !== value);
+  if (latest && !changed) return;
+
+  await broadcastReplaceableEvent(
+    pool,
+    signer,
+    { kind: 0, tags: [], content: JSON.stringify({ ...current, ...wanted }) },
+    ownRelays,
+    discoveryRelays,
+    "publish-profile",
+    onError,
+  );
+}
+
 // ============================================================================
 // Main Bus - NIP-17 Gift-Wrapped DMs
 // ============================================================================
@@ -239,25 +654,92 @@ function globalDedup(key: string): boolean {
   return false;
 }
 
-export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusHandle> {
+// ============================================================================
+// Publisher — pool, signer and outbound sends, without a subscription
+// ============================================================================
+
+// What a bus needs from the publisher it subscribes on
+interface PublisherCore {
+  pool: SimplePool;
+  signer: Nip17Signer;
+  accountId: string;
+  relays: string[];
+  trustedRelays: Set<string>;
+  blossomServers: string[];
+  relayStatus: Map<string, Nip17RelayStatus>;
+  updateRelayStatus: (url: string, patch: Partial<Nip17RelayStatus>) => void;
+  authSignerFor: (relay: string) => (authEvent: any) => Promise<any>;
+  outbox: Nip17Outbox;
+  archive?: Nip17MessageArchive;
+  sent: SentRumorLog;
+  tracking: DeliveryTracking;
+  withMessageTtl: (recipients: string[], opts?: Nip17SendOptions) => Nip17SendOptions | undefined;
+}
+
+const publisherCores = new WeakMap<Nip17Publisher, PublisherCore>();
+
+/**
+ * Start the outbound half of a bus: signer, relay pool, outbox and archive.
+ * Nothing is subscribed, so no inbound gift wrap is read (or marked as
+ * processed) until a bus is started on this publisher.
+ */
+export async function startNip17Publisher(options: Nip17PublisherOptions): Promise<Nip17Publisher> {
   const {
     privateKey,
     relays = DEFAULT_RELAYS,
     publishRelayList = true,
     discoveryRelays = DEFAULT_DISCOVERY_RELAYS,
-    onMessage,
-    onError,
-    onEose,
+    blossomServers = DEFAULT_BLOSSOM_SERVERS,
+    publishServerList = options.blossomServers !== undefined,
   } = options;
 
-  const sk = validatePrivateKey(privateKey);
-  const pk = getPublicKey(sk);
+  // Read through on every call: setHooks swaps them when a bus adopts this publisher
+  let hooks: Nip17PublisherHooks = pickHooks(options);
+  const onError = (error: Error, context: string) => hooks.onError?.(error, context);
+
+  const signer = options.signer
+    ?? (options.bunker
+      ? await connectBunkerSigner({
+          bunker: options.bunker,
+          accountId: options.accountId ?? "default",
+          fallbackRelays: relays,
+          onError,
+        })
+      : createLocalSigner(validatePrivateKey(privateKey ?? "")));
+  const pk = signer.publicKey;
 
   // NIP-42: automatically sign AUTH challenges, but ONLY for relays in our config.
   // We don't want to hand signed auth events to arbitrary relays.
   const normalizeRelayUrl = (url: string) => url.replace(/\/+$/, "").toLowerCase();
   const trustedRelays = new Set(relays.map(normalizeRelayUrl));
 
+  // Per-relay connection state for status snapshots (see getRelayStatus)
+  const relayStatus = new Map<string, Nip17RelayStatus>(
+    relays.map((url) => [url, {
+      url,
+      connected: false,
+      auth: "not-required",
+      lastConnectedAt: null,
+      lastEoseAt: null,
+      lastEventAt: null,
+      reconnectCount: 0,
+      lastCloseReason: null,
+    }]),
+  );
+  const relayKeyByNormalized = new Map(relays.map((url) => [normalizeRelayUrl(url), url]));
+  function updateRelayStatus(url: string, patch: Partial<Nip17RelayStatus>): void {
+    const key = relayKeyByNormalized.get(normalizeRelayUrl(url));
+    const current = key ? relayStatus.get(key) : undefined;
+    if (current) Object.assign(current, patch);
+  }
+
+  // NIP-42 auth signer, used both for the pool's automatic AUTH on trusted
+  // relays and for subscription-level auth-required retries
+  const authSignerFor = (relay: string) => (authEvent: any) => {
+    updateRelayStatus(relay, { auth: "pending" });
+    return signer.signEvent(authEvent);
+  };
+
   // enablePing: keeps WebSockets alive with 29s heartbeats and surfaces silent
   //   TCP deaths as clean onclose events so the reconnect path below fires.
   //   Without this, idle relays (nos.lol, damus, primal) silently drop the
@@ -270,10 +752,224 @@ export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusH
     enableReconnect: true,
     automaticallyAuth: (url: string) => {
       if (!trustedRelays.has(normalizeRelayUrl(url))) return undefined;
-      return (authEvent: any) => finalizeEvent(authEvent, sk);
+      return authSignerFor(url);
+    },
+    onRelayConnectionSuccess: (url: string) => {
+      const wasConnected = relayStatus.get(relayKeyByNormalized.get(normalizeRelayUrl(url)) ?? "")?.connected;
+      updateRelayStatus(url, { connected: true, lastConnectedAt: Date.now() });
+      if (!wasConnected) {
+        hooks.onConnect?.(url);
+        outbox.relayConnected(url);
+      }
+    },
+    onRelayConnectionFailure: (url: string) => {
+      updateRelayStatus(url, { connected: false, lastCloseReason: "connection failed" });
     },
   } as any);
   const accountId = options.accountId ?? pk.slice(0, 16);
+
+  const archive = options.archive
+    ? await openMessageArchive({ accountId, signer, onError })
+    : undefined;
+
+  // Gift wraps that missed a relay are retried from a durable outbox; the
+  // retry publish uses the same trusted-relay AUTH as a first send.
+  const outboxAuth = trustedRelayAuth(signer, trustedRelays);
+  const outbox = await openOutbox({
+    accountId,
+    deadlineMinutes: options.outboxDeadlineMinutes,
+    publish: async (relay, wrap) => {
+      await Promise.all(pool.publish([relay], wrap as any, { onauth: outboxAuth }));
+    },
+    onDelivered: (entry) => archive?.updateStatus(entry.rumorId, "sent"),
+    onExpired: (entry, lastError) => {
+      archive?.updateStatus(entry.rumorId, "failed");
+      hooks.onDeliveryFailed?.({
+        rumorId: entry.rumorId,
+        rumorKind: entry.rumorKind,
+        recipient: entry.recipient,
+        participants: entry.participants,
+        subject: entry.subject,
+        preview: entry.preview,
+        lastError,
+      });
+    },
+    onError,
+  });
+  const sent = await openSentRumorLog({ accountId, onError });
+  const tracking: DeliveryTracking = { outbox, archive, sent };
+
+  // Lifetime of an outbound rumor: the shorter of an explicit (or
+  // inherited) TTL and the one configured for its recipients
+  const withMessageTtl = (recipients: string[], opts?: Nip17SendOptions): Nip17SendOptions | undefined => {
+    const ttls = [opts?.ttlSeconds, hooks.messageTtl?.(recipients)].filter((t): t is number => !!t && t > 0);
+    return ttls.length > 0 ? { ...opts, ttlSeconds: Math.min(...ttls) } : opts;
+  };
+
+  // Fire-and-forget publish of our own kind:10050 so senders can find us.
+  // Replaceable, so each restart just refreshes; no harm in re-running.
+  if (publishRelayList) {
+    publishOwnRelayList(pool, signer, relays, discoveryRelays, onError).catch(
+      (err) => onError?.(err as Error, "publish-relay-list"),
+    );
+  }
+  if (options.profile) {
+    publishOwnProfile(pool, signer, options.profile, relays, discoveryRelays, onError).catch(
+      (err) => onError?.(err as Error, "publish-profile"),
+    );
+  }
+  if (publishServerList) {
+    publishOwnServerList(pool, signer, blossomServers, relays, discoveryRelays, onError).catch(
+      (err) => onError?.(err as Error, "publish-server-list"),
+    );
+  }
+
+  const toRecipients = (to: string | string[]): string[] =>
+    (Array.isArray(to) ? to : [to]).filter((r) => r !== pk);
+
+  const sendDm = async (to: string | string[], text: string, opts?: Nip17SendOptions): Promise<string> => {
+    const recipients = toRecipients(to);
+    return sendNip17Dm(pool, signer, recipients, text, relays, trustedRelays, onError, withMessageTtl(recipients, opts), tracking);
+  };
+
+  const sendReaction = async (to: string | string[], rumorId: string, emoji: string): Promise<string> => {
+    const recipients = toRecipients(to);
+    return sendNip17Reaction(pool, signer, recipients, rumorId, emoji, relays, trustedRelays, onError, withMessageTtl(recipients), tracking);
+  };
+
+  const sendFile = async (to: string | string[], file: OutboundFile, opts?: Nip17SendOptions): Promise<string> => {
+    const recipients = toRecipients(to);
+    return sendNip17File(pool, signer, recipients, file, blossomServers, relays, trustedRelays, onError, withMessageTtl(recipients, opts), tracking);
+  };
+
+  const syncHistory = async (opts?: { days?: number }): Promise<Nip17Transcript[]> => {
+    const rumors = await fetchHistoryRumors(pool, signer, relays, opts?.days, onError);
+    const transcripts = buildTranscripts(rumors, pk, deriveRoomId);
+    const archivedAt = Math.floor(Date.now() / 1000);
+    const byId = new Map(rumors.map((r) => [r.id, r]));
+    for (const transcript of transcripts) {
+      for (const m of transcript.messages) {
+        recordRumor(pk, {
+          id: m.id,
+          pubkey: m.pubkey,
+          kind: m.kind,
+          content: m.content,
+          createdAt: m.createdAt,
+          expiresAt: parseExpiration(byId.get(m.id)?.tags),
+        });
+        archive?.record({
+          id: m.id,
+          direction: m.direction,
+          conversationId: transcript.conversationId,
+          participants: transcript.participants,
+          pubkey: m.pubkey,
+          kind: m.kind,
+          content: m.content,
+          tags: byId.get(m.id)?.tags ?? [],
+          createdAt: m.createdAt,
+          archivedAt,
+          status: m.direction === "out" ? "sent" : "received",
+        });
+      }
+    }
+    return transcripts;
+  };
+
+  const requireArchive = (): Nip17MessageArchive => {
+    if (!archive) throw new Error(`Message archive is not enabled for account ${accountId}`);
+    return archive;
+  };
+
+  const publisher: Nip17Publisher = {
+    close: () => {
+      void outbox.close();
+      void sent.close();
+      void archive?.close();
+      void Promise.resolve(signer.close?.()).catch((err) => onError(err as Error, "close signer"));
+    },
+    publicKey: pk,
+    setHooks: (next) => {
+      hooks = pickHooks(next);
+    },
+    getRelayStatus: () => relays.map((relay) => ({ ...relayStatus.get(relay)! })),
+    getOutboxStatus: () => outbox.counts(),
+    listConversations: () => requireArchive().listConversations(),
+    getHistory: (conversationId, query) => requireArchive().getHistory(conversationId, query),
+    searchMessages: (text, query) => requireArchive().search(text, query),
+    syncHistory,
+    sendDm,
+    sendReaction,
+    sendFile,
+  };
+  publisherCores.set(publisher, {
+    pool,
+    signer,
+    accountId,
+    relays,
+    trustedRelays,
+    blossomServers,
+    relayStatus,
+    updateRelayStatus,
+    authSignerFor,
+    outbox,
+    archive,
+    sent,
+    tracking,
+    withMessageTtl,
+  });
+  return publisher;
+}
+
+function pickHooks(source: Nip17PublisherHooks): Nip17PublisherHooks {
+  return {
+    messageTtl: source.messageTtl,
+    onDeliveryFailed: source.onDeliveryFailed,
+    onError: source.onError,
+    onConnect: source.onConnect,
+  };
+}
+
+// ============================================================================
+// Bus — a publisher plus the kind 1059 subscription and inbound pipeline
+// ============================================================================
+
+/**
+ * Start a full bus: subscribe for gift wraps addressed to the account and
+ * run the inbound pipeline. Starts its own publisher unless given one to
+ * adopt; either way, closing the bus closes the publisher.
+ */
+export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusHandle> {
+  const {
+    onMessage,
+    onReaction,
+    onOperatorMessage,
+    onError,
+    onEose,
+  } = options;
+
+  const publisher = options.publisher ?? await startNip17Publisher(options);
+  const core = publisherCores.get(publisher);
+  if (!core) throw new Error("Bus publisher must come from startNip17Publisher");
+  // An adopted publisher reports through this bus's hooks from now on
+  if (options.publisher) publisher.setHooks(options);
+
+  const {
+    pool,
+    signer,
+    accountId,
+    relays,
+    trustedRelays,
+    blossomServers,
+    relayStatus,
+    updateRelayStatus,
+    authSignerFor,
+    outbox,
+    archive,
+    sent,
+    tracking,
+    withMessageTtl,
+  } = core;
+  const pk = signer.publicKey;
   const gatewayStartedAt = Math.floor(Date.now() / 1000);
 
   // State persistence
@@ -327,6 +1023,32 @@ export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusH
 
   // inflight removed — using module-level globalDedup instead
 
+  const gate = createInboundGate(options.antiSpam);
+  const mediaLimits: MediaLimits = { ...DEFAULT_MEDIA_LIMITS, ...options.media };
+  const webOfTrust = options.webOfTrust
+    ? trackWebOfTrust({ pool, ...options.webOfTrust, queryRelays: relays, onError })
+    : undefined;
+
+  // Latest NIP-17 subject per conversation id. Per the spec the newest
+  // subject names the thread, so untagged follow-ups inherit it.
+  const conversationSubjects = new Map<string, string>();
+
+  function archiveInbound(rumor: Nip17Rumor, meta: Nip17InboundMeta): void {
+    archive?.record({
+      id: rumor.id,
+      direction: "in",
+      conversationId: meta.conversationId,
+      participants: meta.participants,
+      pubkey: rumor.pubkey,
+      kind: rumor.kind,
+      content: rumor.content,
+      tags: rumor.tags,
+      createdAt: rumor.created_at,
+      archivedAt: Math.floor(Date.now() / 1000),
+      status: "received",
+    });
+  }
+
   // Handle incoming gift-wrapped events (kind 1059)
   async function handleEvent(event: Event): Promise<void> {
     try {
@@ -336,24 +1058,35 @@ export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusH
       // Kind 1059 = gift wrap
       if (event.kind !== 1059) return;
 
-      // Unwrap: gift wrap → rumor (unwrapEvent handles the full chain)
-      let rumor: Event;
+      // Unwrap: gift wrap → seal → rumor, decrypting through the signer
+      let rumor: Nip17Rumor;
+      let seal: Event;
       try {
-        rumor = unwrapEvent(event, sk) as unknown as Event;
+        ({ rumor, seal } = await unwrapGiftWrapWithSeal(signer, event));
       } catch (err) {
         onError?.(err as Error, `unwrap gift wrap ${event.id}`);
         return;
       }
 
-      // Handle kind 14 (chat messages) and kind 15 (file attachments)
-      if (rumor.kind !== 14 && rumor.kind !== 15) return;
+      // Handle kind 14 (chat messages), kind 15 (file attachments) and
+      // kind 7 (reactions to our messages)
+      if (rumor.kind !== 14 && rumor.kind !== 15 && rumor.kind !== 7) return;
+
+      // NIP-40: a rumor past its expiration is gone as far as the sender is
+      // concerned — never act on it, even if a relay still served the wrap
+      const expiresAt = parseExpiration(rumor.tags);
+      if (expiresAt !== undefined && expiresAt <= Date.now() / 1000) return;
 
       // Dedupe by rumor ID (same rumor arrives in different gift wraps from each relay).
       const rumorId = rumor.id ? `rumor:${rumor.id}` : `rumor:${rumor.pubkey}:${rumor.created_at}:${rumor.content?.slice(0, 32)}`;
       if (globalDedup(rumorId)) return;
 
-      // Skip our own messages
-      if (rumor.pubkey === pk) return;
+      // Our own rumors come back as self-copies. Ones this account published
+      // are in the rumor log (or, after a restart, the sent record) and
+      // skipped; anything else was sent with our key from another client —
+      // an operator answering by hand.
+      const fromOperator = rumor.pubkey === pk;
+      if (fromOperator && (lookupRumor(pk, rumor.id) || sent.has(rumor.id) || outbox.hasRumor(rumor.id) || !onOperatorMessage)) return;
 
       // Skip rumors we've already seen — only process newer than last known rumor timestamp
       if (lastRumorAt > 0 && rumor.created_at <= lastRumorAt) return;
@@ -363,79 +1096,289 @@ export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusH
       const senderPubkey = rumor.pubkey;
       const text = rumor.content;
 
-      // Create reply function — wrapped to prevent unhandled rejections
-      const replyFn = async (responseText: string): Promise<void> => {
-        try {
-          await sendNip17Dm(pool, sk, senderPubkey, responseText, relays, trustedRelays, onError);
-        } catch (err) {
-          onError?.(err as Error, `reply to ${senderPubkey}`);
-        }
+      // NIP-17 chat room = author + every p tag. More than one other member
+      // makes it a group: replies go to everyone, not just the sender.
+      const roomMembers = new Set<string>([senderPubkey]);
+      for (const tag of rumor.tags || []) {
+        if (tag[0] === "p" && tag[1] && /^[0-9a-f]{64}$/i.test(tag[1])) roomMembers.add(tag[1].toLowerCase());
+      }
+      const participants = [...roomMembers].filter((p) => p !== pk);
+      const isGroup = participants.length > 1;
+
+      // NIP-17 replies carry an `e` tag pointing at the parent message;
+      // prefer one explicitly marked "reply", else the first `e` tag.
+      const eTags = (rumor.tags || []).filter((t) => t[0] === "e" && t[1]);
+      const replyTag = eTags.find((t) => t[3] === "reply") ?? eTags[0];
+      const replyTarget = replyTag ? lookupRumor(pk, replyTag[1]) : undefined;
+
+      if (participants.length === 0) return; // note-to-self from another client
+      const conversationId = isGroup ? deriveRoomId([...roomMembers, pk]) : participants[0];
+      const subjectTag = (rumor.tags || []).find((t) => t[0] === "subject" && t[1]?.trim());
+      if (subjectTag) conversationSubjects.set(conversationId, subjectTag[1].trim());
+      const subject = conversationSubjects.get(conversationId);
+
+      const meta: Nip17InboundMeta = {
+        rumorId: rumor.id,
+        createdAt: rumor.created_at,
+        chatType: isGroup ? "group" : "direct",
+        conversationId,
+        participants,
+        subject,
+        pow: Math.max(getPow(seal.id), getPow(rumor.id)),
+        expiresAt,
+        replyTo: replyTag
+          ? {
+              id: replyTag[1],
+              author: replyTarget?.pubkey,
+              content: replyTarget?.content,
+              createdAt: replyTarget?.createdAt,
+            }
+          : undefined,
       };
 
-      // Create reaction function — targets this rumor (NIP-25 + ["k", "14"]),
-      // wrapped to prevent unhandled rejections
-      const reactFn = async (emoji: string): Promise<void> => {
-        try {
-          await sendNip17Reaction(pool, sk, senderPubkey, rumor.id, emoji, relays, trustedRelays, onError);
-        } catch (err) {
-          onError?.(err as Error, `react ${emoji} to ${senderPubkey}`);
+      if (fromOperator) {
+        if (rumor.kind !== 7) {
+          recordRumor(pk, { id: rumor.id, pubkey: pk, kind: rumor.kind, content: text, createdAt: rumor.created_at, expiresAt });
+          archive?.record({
+            id: rumor.id,
+            direction: "out",
+            conversationId,
+            participants,
+            pubkey: pk,
+            kind: rumor.kind,
+            content: text,
+            tags: rumor.tags,
+            createdAt: rumor.created_at,
+            archivedAt: Math.floor(Date.now() / 1000),
+            status: "sent",
+          });
+          await onOperatorMessage?.(text, meta);
         }
-      };
+        lastRumorAt = Math.max(lastRumorAt, rumor.created_at);
+        scheduleStatePersist(event.created_at, event.id);
+        return;
+      }
 
-      // Parse and decrypt media attachments (if any)
-      let decryptedMedia: DecryptedMedia[] | undefined;
-      
-      if (rumor.kind === 15) {
-        // Kind 15: File message with AES-GCM encryption
-        const metadata = parseKind15Tags(rumor.tags || []);
-        if (metadata) {
-          metadata.url = rumor.content; // URL is in content for kind 15
+      // Kind 7: NIP-25 reaction. Only reactions to messages this bot sent are
+      // surfaced (as feedback on an agent reply); anything else is ignored.
+      // The sender has to pass the DM policy and the anti-spam gate like any
+      // message.
+      if (rumor.kind === 7) {
+        const standing = await (options.senderStanding?.(senderPubkey, meta) ?? "accepted");
+        const admission = standing === "accepted"
+          ? gate.admit(senderPubkey, meta.pow ?? 0, options.isKnownSender?.(senderPubkey) ?? false)
+          : undefined;
+        if (admission?.decision === "accepted") {
           try {
-            const { data, mimeType } = await fetchAndDecryptKind15File(metadata);
-            const dataUrl = mediaToDataUrl(data, mimeType);
-            
-            decryptedMedia = [{
-              dataUrl,
-              mimeType,
-              originalUrl: metadata.url,
-              blurhash: metadata.blurhash,
-              dimensions: metadata.dimensions,
-            }];
-          } catch (err) {
-            onError?.(err as Error, `decrypt kind 15 file ${metadata.url}`);
+            archiveInbound(rumor, meta);
+            const targetId = eTags[eTags.length - 1]?.[1];
+            const recorded = targetId ? lookupRumor(pk, targetId) : undefined;
+            // Not in the rumor log (e.g. sent before a restart): ours if the
+            // sent record or the caller knows it
+            const target: ReactedRumor | undefined = recorded
+              ? recorded.pubkey === pk ? recorded : undefined
+              : targetId && (sent.has(targetId) || options.isOwnRumor?.(targetId)) ? { id: targetId } : undefined;
+            if (target && onReaction) {
+              await onReaction(senderPubkey, reactionEmoji(text), target, { ...meta, replyTo: undefined });
+            }
+          } finally {
+            admission.release();
           }
+        } else {
+          const reason = admission ? admission.decision : "not accepted by the DM policy";
+          onError?.(new Error(`Dropped reaction ${rumor.id} from ${senderPubkey}: ${reason}`), admission ? "anti-spam" : "dm-policy");
         }
-      } else {
-        // Kind 14: Check for imeta tags (NIP-44 encrypted Blossom blobs)
-        const mediaAttachments = parseImetaTags(rumor.tags || []);
-        if (mediaAttachments.length > 0) {
-          decryptedMedia = [];
-          const conversationKey = deriveConversationKey(sk, senderPubkey);
-          
-          for (const attachment of mediaAttachments) {
-            try {
-              const { data, mimeType } = await fetchAndDecryptBlob(
-                attachment.url,
-                conversationKey,
-              );
-              const effectiveMimeType = mimeType || attachment.mimeType;
-              const dataUrl = mediaToDataUrl(data, effectiveMimeType);
-              
-              decryptedMedia.push({
-                dataUrl,
-                mimeType: effectiveMimeType,
-                originalUrl: attachment.url,
+        lastRumorAt = Math.max(lastRumorAt, rumor.created_at);
+        scheduleStatePersist(event.created_at, event.id);
+        return;
+      }
+
+      // Everything sent in response to a disappearing message disappears
+      // with it: same lifetime, counted from our send time
+      const inheritedTtl = options.inheritMessageTtl !== false && expiresAt !== undefined && expiresAt > rumor.created_at
+        ? expiresAt - rumor.created_at
+        : undefined;
+
+      // DM policy first: a sender it drops never touches the account's rate
+      // limits and is never told anything
+      const standing = await (options.senderStanding?.(senderPubkey, meta) ?? "accepted");
+      if (standing === "dropped") {
+        onError?.(new Error(`Dropped message ${rumor.id} from ${senderPubkey}: not accepted by the DM policy`), "dm-policy");
+        lastRumorAt = Math.max(lastRumorAt, rumor.created_at);
+        scheduleStatePersist(event.created_at, event.id);
+        return;
+      }
+
+      // Anti-spam gate — before the rumor is stored or archived, any media
+      // is fetched or a run is started. The slot it takes is released
+      // however the rest of the handling ends.
+      const admission = gate.admit(senderPubkey, meta.pow ?? 0, options.isKnownSender?.(senderPubkey) ?? false);
+      if (admission.decision !== "accepted") {
+        onError?.(
+          new Error(`Dropped message ${rumor.id} from ${senderPubkey}: ${admission.decision} (pow ${meta.pow})`),
+          "anti-spam",
+        );
+        const notice = standing === "accepted" ? gate.autoReplyFor(senderPubkey, admission.decision) : null;
+        if (notice) {
+          const noticeOpts = withMessageTtl([senderPubkey], { replyTo: rumor.id, ttlSeconds: inheritedTtl });
+          sendNip17Dm(pool, signer, [senderPubkey], notice, relays, trustedRelays, onError, noticeOpts, tracking)
+            .catch((err) => onError?.(err as Error, `anti-spam notice to ${senderPubkey}`));
+        }
+        lastRumorAt = Math.max(lastRumorAt, rumor.created_at);
+        scheduleStatePersist(event.created_at, event.id);
+        return;
+      }
+
+      try {
+        recordRumor(pk, {
+          id: rumor.id,
+          pubkey: senderPubkey,
+          kind: rumor.kind,
+          content: text,
+          createdAt: rumor.created_at,
+          expiresAt,
+        });
+        archiveInbound(rumor, meta);
+
+        const replyOpts = withMessageTtl(participants, { replyTo: rumor.id, subject, ttlSeconds: inheritedTtl });
+
+        // Create reply function — threaded onto this rumor, wrapped to prevent
+        // unhandled rejections
+        const replyFn = async (responseText: string): Promise<void> => {
+          try {
+            await sendNip17Dm(pool, signer, participants, responseText, relays, trustedRelays, onError, replyOpts, tracking);
+          } catch (err) {
+            onError?.(err as Error, `reply to ${senderPubkey}`);
+          }
+        };
+
+        // Create reaction function — targets this rumor (NIP-25 + ["k", "14"]),
+        // wrapped to prevent unhandled rejections
+        const reactFn = async (emoji: string): Promise<void> => {
+          try {
+            const reactOpts = withMessageTtl(participants, { ttlSeconds: inheritedTtl });
+            await sendNip17Reaction(pool, signer, participants, rumor.id, emoji, relays, trustedRelays, onError, reactOpts, tracking);
+          } catch (err) {
+            onError?.(err as Error, `react ${emoji} to ${senderPubkey}`);
+          }
+        };
+
+        // Create file reply function — encrypts, uploads and sends a kind 15
+        const replyFileFn = async (file: OutboundFile): Promise<void> => {
+          try {
+            await sendNip17File(pool, signer, participants, file, blossomServers, relays, trustedRelays, onError, replyOpts, tracking);
+          } catch (err) {
+            onError?.(err as Error, `file reply to ${senderPubkey}`);
+          }
+        };
+
+        // Fetch and decrypt media attachments (if any) straight into the
+        // media root. Anything refused or failed is reported to the agent via
+        // meta.mediaRejections.
+        const rejections: MediaRejection[] = [];
+        const rejectMedia = (url: string, reason: string) => {
+          rejections.push({ url, reason });
+          onError?.(new Error(`Rejected attachment ${url}: ${reason}`), "media");
+        };
+        // Checks possible before downloading: declared type and size
+        const precheckMedia = (mimeType: string | undefined, size: number | undefined): string | null => {
+          if (mimeType && !isMimeTypeAllowed(mimeType, mediaLimits.allowedMimeTypes)) return `type ${mimeType} is not allowed`;
+          if (size !== undefined && size > mediaLimits.maxBytes) return `declared size ${size} bytes exceeds the ${mediaLimits.maxBytes} byte limit`;
+          return null;
+        };
+        // Last resort for a blob whose URLs all fail: its hash on the
+        // sender's own Blossom servers (kind 10063)
+        const senderServers = () => getUserServerList(pool, senderPubkey, relays, onError);
+
+        const pending: Array<{ source: EncryptedAttachment; blurhash?: string; dimensions?: { width: number; height: number } }> = [];
+        // Only senders the agent will serve get anything downloaded; a
+        // pairing request goes on as text alone
+        if (standing === "accepted") {
+          if (rumor.kind === 15) {
+            // Kind 15: File message with AES-GCM encryption; the URL is the content
+            const metadata = parseKind15Tags(rumor.tags || []);
+            const refused = metadata ? precheckMedia(metadata.fileType, metadata.size) : null;
+            if (metadata && refused) {
+              rejectMedia(rumor.content, refused);
+            } else if (metadata && (!metadata.decryptionKey || !metadata.decryptionNonce)) {
+              rejectMedia(rumor.content, "missing decryption key or nonce");
+            } else if (metadata && metadata.encryptionAlgorithm && metadata.encryptionAlgorithm !== "aes-gcm") {
+              rejectMedia(rumor.content, `unsupported encryption algorithm ${metadata.encryptionAlgorithm}`);
+            } else if (metadata) {
+              pending.push({
+                source: {
+                  url: rumor.content,
+                  fallbacks: metadata.fallbacks,
+                  encryption: { algorithm: "aes-gcm", key: metadata.decryptionKey!, nonce: metadata.decryptionNonce! },
+                  encryptedHash: metadata.encryptedHash,
+                  originalHash: metadata.originalHash,
+                  mimeType: metadata.fileType,
+                },
+                blurhash: metadata.blurhash,
+                dimensions: metadata.dimensions,
+              });
+            }
+          } else {
+            // Kind 14: Check for imeta tags (NIP-44 encrypted Blossom blobs)
+            const mediaAttachments = parseImetaTags(rumor.tags || []);
+            for (const extra of mediaAttachments.slice(mediaLimits.maxAttachments)) {
+              rejectMedia(extra.url, `more than ${mediaLimits.maxAttachments} attachments in one message`);
+            }
+            for (const attachment of mediaAttachments.slice(0, mediaLimits.maxAttachments)) {
+              const refused = precheckMedia(attachment.mimeType, attachment.size);
+              if (refused) {
+                rejectMedia(attachment.url, refused);
+                continue;
+              }
+              pending.push({
+                source: {
+                  url: attachment.url,
+                  fallbacks: attachment.fallbacks,
+                  encryption: { algorithm: "nip44", senderPubkey },
+                  encryptedHash: attachment.encryptedHash,
+                  originalHash: attachment.originalHash,
+                  mimeType: attachment.mimeType,
+                },
                 blurhash: attachment.blurhash,
                 dimensions: attachment.dimensions,
               });
+            }
+          }
+        }
+
+        let inboundMedia: InboundAttachment[] | undefined;
+        if (pending.length > 0) {
+          inboundMedia = [];
+          const mediaDir = await createMessageMediaDir(accountId, rumor.id, meta.expiresAt);
+          for (const [idx, { source, blurhash, dimensions }] of pending.entries()) {
+            try {
+              const fetched = await fetchAttachment(source, signer, mediaLimits, mediaDir, `attachment-${idx + 1}`, senderServers);
+              if (!isMimeTypeAllowed(fetched.mimeType, mediaLimits.allowedMimeTypes)) {
+                await rm(fetched.path, { force: true });
+                throw new Error(`type ${fetched.mimeType ?? "unknown"} is not allowed`);
+              }
+              inboundMedia.push({
+                path: fetched.path,
+                size: fetched.size,
+                sha256: fetched.sha256,
+                mimeType: fetched.mimeType,
+                originalName: originalNameFromUrl(source.url),
+                originalUrl: source.url,
+                blurhash,
+                dimensions,
+              });
             } catch (err) {
-              onError?.(err as Error, `decrypt media ${attachment.url}`);
+              rejectMedia(source.url, (err as Error).message);
             }
           }
         }
-      }
+        if (rejections.length > 0) meta.mediaRejections = rejections;
 
-      await onMessage(senderPubkey, text, replyFn, decryptedMedia, reactFn);
+        meta.sender = await getSenderProfile(pool, senderPubkey, relays, onError);
+        await onMessage(senderPubkey, text, replyFn, inboundMedia, reactFn, replyFileFn, meta);
+      } finally {
+        admission.release();
+      }
       lastRumorAt = Math.max(lastRumorAt, rumor.created_at);
       scheduleStatePersist(event.created_at, event.id);
     } catch (err) {
@@ -445,57 +1388,74 @@ export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusH
     }
   }
 
-  // Subscribe to kind 1059 (gift wraps) addressed to us
+  // Subscribe to kind 1059 (gift wraps) addressed to us — one subscription
+  // per relay, so each relay's EOSE/close/backoff is tracked on its own.
   // Use since set to 2 days ago to catch NIP-59 randomized timestamps
   let closed = false;
-  let reconnectAttempts = 0;
-  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  const activeSubs = new Map<string, SubCloser>();
+  const reconnectAttempts = new Map<string, number>();
+  const reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
   // Safety-net: even with pings enabled, force a full close+resubscribe every
   // REFRESH_INTERVAL_MS so nothing can silently drift for more than this window.
   let refreshTimer: ReturnType<typeof setTimeout> | null = null;
   const REFRESH_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
 
-  // NIP-42 auth signer for subscription-level auth-required retries
-  const authSigner = (authEvent: any) => finalizeEvent(authEvent, sk);
-
-  function subscribe() {
+  function subscribeRelay(relay: string): SubCloser {
     const subSince = Math.max(0, Math.floor(Date.now() / 1000) - STARTUP_LOOKBACK_SEC);
+    let authAttempted = false;
     return pool.subscribeMany(
-      relays,
+      [relay],
       { kinds: [1059], "#p": [pk], since: subSince } as any,
       {
-        onauth: authSigner,
-        onevent: (event) => { handleEvent(event).catch((err) => onError?.(err as Error, `unhandled in handleEvent ${event.id}`)); },
+        onauth: (authEvent: any) => {
+          authAttempted = true;
+          return authSignerFor(relay)(authEvent);
+        },
+        onevent: (event) => {
+          updateRelayStatus(relay, { lastEventAt: Date.now() });
+          handleEvent(event).catch((err) => onError?.(err as Error, `unhandled in handleEvent ${event.id}`));
+        },
         oneose: () => {
-          reconnectAttempts = 0; // reset backoff on successful EOSE
-          onEose?.(relays.join(", "));
+          reconnectAttempts.set(relay, 0); // reset backoff on successful EOSE
+          const status = relayStatus.get(relay);
+          updateRelayStatus(relay, {
+            connected: true,
+            lastEoseAt: Date.now(),
+            auth: authAttempted || status?.auth === "pending" ? "authenticated" : status?.auth ?? "not-required",
+          });
+          onEose?.(relay);
         },
-        onclose: (reason) => {
-          options.onDisconnect?.(relays.join(", "));
-          onError?.(new Error(`Subscription closed: ${reason}`), "subscription");
+        onclose: (reasons) => {
+          const reason = reasons.join("; ") || "closed";
+          const authRejected = /auth/i.test(reason) && (authAttempted || /failed|rejected|restricted/i.test(reason));
+          updateRelayStatus(relay, {
+            connected: false,
+            lastCloseReason: reason,
+            ...(authRejected ? { auth: "rejected" as const } : {}),
+          });
+          options.onDisconnect?.(relay);
+          onError?.(new Error(`Subscription closed on ${relay}: ${reason}`), "subscription");
           if (!closed) {
-            const delay = Math.min(5000 * Math.pow(2, reconnectAttempts), 5 * 60 * 1000);
-            reconnectAttempts++;
-            onError?.(new Error(`Reconnecting in ${delay / 1000}s (attempt ${reconnectAttempts})`), "reconnect");
-            reconnectTimer = setTimeout(() => {
+            const attempts = reconnectAttempts.get(relay) ?? 0;
+            const delay = Math.min(5000 * Math.pow(2, attempts), 5 * 60 * 1000);
+            reconnectAttempts.set(relay, attempts + 1);
+            onError?.(new Error(`Reconnecting to ${relay} in ${delay / 1000}s (attempt ${attempts + 1})`), "reconnect");
+            reconnectTimers.set(relay, setTimeout(() => {
+              reconnectTimers.delete(relay);
               if (!closed) {
-                activeSub = subscribe();
+                const status = relayStatus.get(relay);
+                updateRelayStatus(relay, { reconnectCount: (status?.reconnectCount ?? 0) + 1 });
+                activeSubs.set(relay, subscribeRelay(relay));
               }
-            }, delay);
+            }, delay));
           }
         },
       },
     );
   }
 
-  let activeSub = subscribe();
-
-  // Fire-and-forget publish of our own kind:10050 so senders can find us.
-  // Replaceable, so each restart just refreshes; no harm in re-running.
-  if (publishRelayList) {
-    publishOwnRelayList(pool, sk, pk, relays, discoveryRelays, onError).catch(
-      (err) => onError?.(err as Error, "publish-relay-list"),
-    );
+  for (const relay of relays) {
+    activeSubs.set(relay, subscribeRelay(relay));
   }
 
   function scheduleRefresh(): void {
@@ -504,10 +1464,10 @@ export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusH
       if (closed) return;
       try {
         onError?.(new Error(`Periodic subscription refresh (every ${REFRESH_INTERVAL_MS / 60000}min)`), "refresh");
-        // Closing the old sub triggers onclose → reconnect path, which will
-        // rebuild activeSub via subscribe(). We avoid calling subscribe()
-        // directly here to keep a single source of truth for sub creation.
-        activeSub.close();
+        // Closing the old subs triggers onclose → reconnect path, which will
+        // rebuild each one via subscribeRelay(). We avoid calling it directly
+        // here to keep a single source of truth for sub creation.
+        for (const sub of activeSubs.values()) sub.close();
       } catch (err) {
         onError?.(err as Error, "refresh-close");
       } finally {
@@ -519,25 +1479,19 @@ export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusH
   }
   scheduleRefresh();
 
-  const sendDm = async (toPubkey: string, text: string): Promise<void> => {
-    await sendNip17Dm(pool, sk, toPubkey, text, relays, trustedRelays, onError);
-  };
-
-  const sendReaction = async (toPubkey: string, rumorId: string, emoji: string): Promise<void> => {
-    await sendNip17Reaction(pool, sk, toPubkey, rumorId, emoji, relays, trustedRelays, onError);
-  };
-
   return {
+    ...publisher,
     close: () => {
       closed = true;
-      if (reconnectTimer) clearTimeout(reconnectTimer);
+      for (const timer of reconnectTimers.values()) clearTimeout(timer);
       if (refreshTimer) clearTimeout(refreshTimer);
-      activeSub.close();
+      for (const sub of activeSubs.values()) sub.close();
+      webOfTrust?.close();
       persistStateNow();
+      publisher.close();
     },
-    publicKey: pk,
-    sendDm,
-    sendReaction,
+    getAntiSpamStatus: () => gate.counts(),
+    getWebOfTrust: () => webOfTrust?.current() ?? null,
   };
 }
 
@@ -545,86 +1499,126 @@ export async function startNip17Bus(options: Nip17BusOptions): Promise<Nip17BusH
 // Publish NIP-17 wrapped rumors
 // ============================================================================
 
-async function publishWrappedRumor(
-  pool: SimplePool,
-  sk: Uint8Array,
-  toPubkey: string,
-  rumorTemplate: { kind: number; content: string; tags: string[][]; created_at?: number },
-  relays: string[],
-  trustedRelays: Set<string>,
-  onError?: (error: Error, context: string) => void,
-): Promise<void> {
-  const pk = getPublicKey(sk);
+// Where a publish reports what happened to the rumor after the first attempt
+interface DeliveryTracking {
+  outbox?: Nip17Outbox;
+  archive?: Nip17MessageArchive;
+  sent?: SentRumorLog;
+}
 
-  // NIP-42 auth signer — only signs for relays in our config to prevent privacy leaks.
-  // The auth event contains the relay URL, so a rogue relay could learn our pubkey
-  // if we blindly sign for any relay that challenges us.
-  const onauth = (authEvent: any) => {
+// NIP-42 auth signer — only signs for relays in our config to prevent privacy leaks.
+// The auth event contains the relay URL, so a rogue relay could learn our pubkey
+// if we blindly sign for any relay that challenges us.
+function trustedRelayAuth(signer: Nip17Signer, trustedRelays: Set<string>) {
+  return (authEvent: any) => {
     const relayTag = authEvent.tags?.find((t: string[]) => t[0] === "relay");
     const relayUrl = relayTag?.[1] ?? "";
     if (!trustedRelays.has(relayUrl.replace(/\/+$/, "").toLowerCase())) {
       throw new Error(`Refusing to auth against untrusted relay: ${relayUrl}`);
     }
-    return finalizeEvent(authEvent, sk);
+    return signer.signEvent(authEvent);
   };
+}
 
-  // Look up the recipient's DM relays (kind 10050) and merge with ours.
-  // This ensures replies reach the recipient even if they use different relays.
-  const recipientDmRelays = await getRecipientDmRelays(pool, toPubkey, relays, onError);
-  const normalizeUrl = (u: string) => u.replace(/\/+$/, "").toLowerCase();
-  const ourRelaySet = new Set(relays.map(normalizeUrl));
-  const extraRelays = recipientDmRelays.filter(r => !ourRelaySet.has(normalizeUrl(r)));
-  const allRelays = [...relays, ...extraRelays];
+/**
+ * Gift-wrap one rumor for every recipient plus a self-copy. A 1:1 DM has a
+ * single recipient; a NIP-17 group room has one per participant, each wrap
+ * going to our relays plus that participant's kind:10050 DM relays.
+ *
+ * Throws only when no recipient got a wrap onto any relay; per-recipient
+ * total failures and partial relay failures are reported via onError.
+ * With an outbox, every wrap that missed a relay is queued for retry instead,
+ * and a total failure resolves normally — delivery is then the outbox's job.
+ * Resolves to the rumor id, which is recorded in the local rumor log up front.
+ */
+async function publishWrappedRumor(
+  pool: SimplePool,
+  signer: Nip17Signer,
+  recipients: string[],
+  rumorTemplate: { kind: number; content: string; tags: string[][]; created_at?: number },
+  relays: string[],
+  trustedRelays: Set<string>,
+  onError?: (error: Error, context: string) => void,
+  tracking?: DeliveryTracking,
+): Promise<string> {
+  const pk = signer.publicKey;
+  const outbox = tracking?.outbox;
 
-  if (extraRelays.length > 0) {
-    onError?.(new Error(`Adding recipient DM relays: ${extraRelays.join(", ")}`), "recipient-relays");
+  if (recipients.length === 0) {
+    throw new Error("Wrapped rumor has no recipients");
   }
 
+  const onauth = trustedRelayAuth(signer, trustedRelays);
+
   const event = {
     ...rumorTemplate,
     created_at: rumorTemplate.created_at ?? Math.floor(Date.now() / 1000),
   };
 
   // Manual NIP-59: rumor → seal → wrap
-  // createWrap already signs with an ephemeral key — do NOT re-sign with sk
-  const rumor = require('nostr-tools/nip59').createRumor(event, sk);
-  const sealRecipient = require('nostr-tools/nip59').createSeal(rumor, sk, toPubkey);
-  const wrapForRecipient = require('nostr-tools/nip59').createWrap(sealRecipient, toPubkey);
+  // The seal is signed by the account signer; each wrap by a fresh ephemeral key
+  const rumor = createRumorForSigner(signer, event);
+  // A rumor's NIP-40 expiration is repeated on every wrap — the wraps are
+  // what relays store, and they can't see inside them
+  const expiresAt = parseExpiration(rumor.tags);
+
+  // Record before publishing: our self-copy can come back on the
+  // subscription before the publish settles, and must not look like a
+  // message from another client.
+  recordRumor(pk, {
+    id: rumor.id,
+    pubkey: pk,
+    kind: rumor.kind,
+    content: rumor.content,
+    createdAt: rumor.created_at,
+    expiresAt,
+  });
+  tracking?.sent?.add(rumor.id, rumor.created_at);
 
-  const sealSelf = require('nostr-tools/nip59').createSeal(rumor, sk, pk);
-  const wrapForSelf = require('nostr-tools/nip59').createWrap(sealSelf, pk);
+  const normalizeUrl = (u: string) => u.replace(/\/+$/, "").toLowerCase();
+  const ourRelaySet = new Set(relays.map(normalizeUrl));
 
-  // Publish recipient's wrap to all relays (ours + theirs)
+  // Publish each recipient's wrap to all relays (ours + theirs)
   // Publish our self-copy wrap to only our relays
   // Pass onauth so publishes retry after NIP-42 auth challenges (only for trusted relays)
-  const publishAttempts: Array<{ kind: "recipient" | "self"; relay: string; promise: Promise<any> }> = [];
+  const publishAttempts: Array<{ kind: "recipient" | "self"; recipient: string; relay: string; wrap: Event; promise: Promise<any> }> = [];
 
-  // Recipient wrap → all relays (ours + recipient's DM relays)
-  for (const relay of allRelays) {
+  const startPublish = (kind: "recipient" | "self", recipient: string, relay: string, wrap: Event) => {
     try {
-      const pubResults = pool.publish([relay], wrapForRecipient as any, { onauth });
+      const pubResults = pool.publish([relay], wrap as any, { onauth });
       for (const p of pubResults) {
         if (p && typeof p.catch === 'function') {
-          publishAttempts.push({ kind: "recipient", relay, promise: p });
+          publishAttempts.push({ kind, recipient, relay, wrap, promise: p });
         }
       }
     } catch (err) {
       onError?.(err as Error, `publish to ${relay}`);
+      // Keep the attempt so the outbox can retry this relay later
+      if (outbox) publishAttempts.push({ kind, recipient, relay, wrap, promise: Promise.reject(err) });
+    }
+  };
+
+  for (const toPubkey of recipients) {
+    // Look up the recipient's DM relays (kind 10050) and merge with ours.
+    // This ensures replies reach the recipient even if they use different relays.
+    const recipientDmRelays = await getRecipientDmRelays(pool, toPubkey, relays, onError);
+    const extraRelays = recipientDmRelays.filter(r => !ourRelaySet.has(normalizeUrl(r)));
+    const allRelays = [...relays, ...extraRelays];
+
+    if (extraRelays.length > 0) {
+      onError?.(new Error(`Adding recipient DM relays: ${extraRelays.join(", ")}`), "recipient-relays");
+    }
+
+    const wrapForRecipient = await wrapRumorWithSigner(signer, rumor, toPubkey, expiresAt);
+    for (const relay of allRelays) {
+      startPublish("recipient", toPubkey, relay, wrapForRecipient);
     }
   }
 
   // Self wrap → only our relays
+  const wrapForSelf = await wrapRumorWithSigner(signer, rumor, pk, expiresAt);
   for (const relay of relays) {
-    try {
-      const pubResults = pool.publish([relay], wrapForSelf as any, { onauth });
-      for (const p of pubResults) {
-        if (p && typeof p.catch === 'function') {
-          publishAttempts.push({ kind: "self", relay, promise: p });
-        }
-      }
-    } catch (err) {
-      onError?.(err as Error, `publish to ${relay}`);
-    }
+    startPublish("self", pk, relay, wrapForSelf);
   }
 
   if (publishAttempts.length === 0) {
@@ -645,12 +1639,56 @@ async function publishWrappedRumor(
     throw new Error("No recipient publish attempts were created for the wrapped rumor");
   }
 
-  if (recipientSuccesses.length === 0) {
+  // Queue every wrap that missed at least one relay
+  if (outbox) {
+    const subject = rumor.tags.find((t) => t[0] === "subject")?.[1];
+    const byWrap = new Map<string, typeof results>();
+    for (const entry of results) {
+      byWrap.set(entry.wrap.id, [...(byWrap.get(entry.wrap.id) ?? []), entry]);
+    }
+    for (const entries of byWrap.values()) {
+      const failed = entries.filter((entry) => entry.result.status === "rejected");
+      if (failed.length === 0) continue;
+      outbox.enqueue({
+        id: entries[0].wrap.id,
+        rumorId: rumor.id,
+        rumorKind: rumor.kind,
+        preview: rumor.content.slice(0, 200),
+        recipient: entries[0].recipient,
+        self: entries[0].kind === "self",
+        participants: recipients,
+        subject,
+        wrap: entries[0].wrap,
+        delivered: failed.length < entries.length,
+        failedRelays: failed.map((entry) => ({
+          relay: entry.relay,
+          error: String((entry.result as PromiseRejectedResult).reason?.message ?? (entry.result as PromiseRejectedResult).reason),
+        })),
+      });
+    }
+  }
+
+  if (recipientSuccesses.length === 0 && outbox) {
+    onError?.(
+      new Error(`Recipient publish failed on all relays; rumor ${rumor.id} queued in outbox`),
+      "publish",
+    );
+  } else if (recipientSuccesses.length === 0) {
     throw new Error(
       `Recipient publish failed on all relays: ${recipientFailures.map((entry) => `${entry.relay}: ${(entry.result as PromiseRejectedResult).reason}`).join(", ")}`
     );
   }
 
+  const unreached = recipientSuccesses.length === 0 ? [] : recipients.filter(
+    (r) => !recipientSuccesses.some((entry) => entry.recipient === r),
+  );
+  if (unreached.length > 0) {
+    onError?.(
+      new Error(`Recipient publish failed on all relays for ${unreached.length}/${recipients.length} participants: ${unreached.join(", ")}`),
+      "publish",
+    );
+  }
+
   const selfResults = results.filter((entry) => entry.kind === "self");
   const selfFailures = selfResults.filter((entry) => entry.result.status === "rejected");
   if (recipientFailures.length > 0 || selfFailures.length > 0) {
@@ -661,25 +1699,56 @@ async function publishWrappedRumor(
       "publish"
     );
   }
+
+  tracking?.archive?.record({
+    id: rumor.id,
+    direction: "out",
+    conversationId: recipients.length > 1 ? deriveRoomId([...recipients, pk]) : recipients[0],
+    participants: recipients,
+    pubkey: pk,
+    kind: rumor.kind,
+    content: rumor.content,
+    tags: rumor.tags,
+    createdAt: rumor.created_at,
+    archivedAt: Math.floor(Date.now() / 1000),
+    status: recipientSuccesses.length > 0 ? "sent" : "queued",
+  });
+  return rumor.id;
+}
+
+function threadTags(opts?: Nip17SendOptions): string[][] {
+  const tags: string[][] = [];
+  if (opts?.replyTo) tags.push(["e", opts.replyTo, "", "reply"]);
+  if (opts?.subject) tags.push(["subject", opts.subject]);
+  return tags;
+}
+
+// NIP-40 expiration for the rumor; publishWrappedRumor copies it to the wraps
+function expirationTags(opts?: Nip17SendOptions): string[][] {
+  if (!opts?.ttlSeconds) return [];
+  return [["expiration", String(Math.floor(Date.now() / 1000) + Math.ceil(opts.ttlSeconds))]];
 }
 
 async function sendNip17Dm(
   pool: SimplePool,
-  sk: Uint8Array,
-  toPubkey: string,
+  signer: Nip17Signer,
+  recipients: string[],
   text: string,
   relays: string[],
   trustedRelays: Set<string>,
   onError?: (error: Error, context: string) => void,
-): Promise<void> {
-  await publishWrappedRumor(
+  opts?: Nip17SendOptions,
+  tracking?: DeliveryTracking,
+): Promise<string> {
+  return publishWrappedRumor(
     pool,
-    sk,
-    toPubkey,
-    { kind: 14, content: text, tags: [["p", toPubkey]] },
+    signer,
+    recipients,
+    { kind: 14, content: text, tags: [...recipients.map((r) => ["p", r]), ...threadTags(opts), ...expirationTags(opts)] },
     relays,
     trustedRelays,
     onError,
+    tracking,
   );
 }
 
@@ -687,25 +1756,86 @@ async function sendNip17Dm(
 // reaction targets a kind:14 chat message; the ["e", rumorId] points at it.
 async function sendNip17Reaction(
   pool: SimplePool,
-  sk: Uint8Array,
-  toPubkey: string,
+  signer: Nip17Signer,
+  recipients: string[],
   rumorId: string,
   emoji: string,
   relays: string[],
   trustedRelays: Set<string>,
   onError?: (error: Error, context: string) => void,
-): Promise<void> {
-  await publishWrappedRumor(
+  opts?: Pick<Nip17SendOptions, "ttlSeconds">,
+  tracking?: DeliveryTracking,
+): Promise<string> {
+  return publishWrappedRumor(
     pool,
-    sk,
-    toPubkey,
+    signer,
+    recipients,
     {
       kind: 7,
       content: emoji,
-      tags: [["e", rumorId], ["p", toPubkey], ["k", "14"]],
+      tags: [["e", rumorId], ...recipients.map((r) => ["p", r]), ["k", "14"], ...expirationTags(opts)],
+    },
+    relays,
+    trustedRelays,
+    onError,
+    tracking,
+  );
+}
+
+// NIP-17 kind 15 file message. The file is AES-GCM encrypted with a one-off
+// key, uploaded to Blossom, and the key/nonce travel inside the gift-wrapped
+// rumor — the mirror image of parseKind15Tags + fetchAttachment.
+async function sendNip17File(
+  pool: SimplePool,
+  signer: Nip17Signer,
+  recipients: string[],
+  file: OutboundFile,
+  blossomServers: string[],
+  relays: string[],
+  trustedRelays: Set<string>,
+  onError?: (error: Error, context: string) => void,
+  opts?: Nip17SendOptions,
+  tracking?: DeliveryTracking,
+): Promise<string> {
+  const originalHash = await sha256Hex(file.data);
+  const { encrypted, key, nonce } = await encryptAesGcm(file.data);
+  const encryptedHash = await sha256Hex(encrypted);
+
+  const uploaded = await uploadBlobToServers(
+    blossomServers,
+    encrypted,
+    encryptedHash,
+    signer,
+    { description: `Upload ${file.fileName ?? "encrypted file"}` },
+    onError,
+  );
+
+  const metadata: Kind15FileMetadata = {
+    url: uploaded[0].url,
+    fileType: file.mimeType,
+    encryptionAlgorithm: "aes-gcm",
+    decryptionKey: key,
+    decryptionNonce: nonce,
+    encryptedHash,
+    originalHash,
+    size: encrypted.length,
+    dimensions: file.dimensions,
+    blurhash: file.blurhash,
+    fallbacks: uploaded.slice(1).map((d) => d.url),
+  };
+
+  return publishWrappedRumor(
+    pool,
+    signer,
+    recipients,
+    {
+      kind: 15,
+      content: metadata.url,
+      tags: [...recipients.map((r) => ["p", r]), ...threadTags(opts), ...buildKind15Tags(metadata), ...expirationTags(opts)],
     },
     relays,
     trustedRelays,
     onError,
+    tracking,
   );
 }
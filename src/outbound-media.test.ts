@@ -0,0 +1,73 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_MEDIA_LIMITS } from "./media-fetch.js";
+import { loadOutboundFile, readImageDimensions } from "./outbound-media.js";
+
+// 1x2 PNG header: signature, IHDR length/type, width 1, height 2
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]),
+  Buffer.from("IHDR"),
+  Buffer.from([0, 0, 0, 1, 0, 0, 0, 2, 8, 6, 0, 0, 0]),
+]);
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === "/big.bin") {
+      res.writeHead(200, { "content-type": "application/octet-stream" });
+      res.end(Buffer.alloc(64 * 1024));
+      return;
+    }
+    res.writeHead(200, { "content-type": "image/png" });
+    res.end(PNG);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const lan = { ...DEFAULT_MEDIA_LIMITS, allowPrivateNetwork: true };
+
+describe("loadOutboundFile", () => {
+  it("downloads a URL with its type, name and dimensions", async () => {
+    const file = await loadOutboundFile(`${base}/photo.png`, lan);
+    expect(file.fileName).toBe("photo.png");
+    expect(file.mimeType).toBe("image/png");
+    expect(file.dimensions).toEqual({ width: 1, height: 2 });
+  });
+
+  it("stops at the media size limit", async () => {
+    await expect(loadOutboundFile(`${base}/big.bin`, { ...lan, maxBytes: 1024 })).rejects.toThrow(/exceeds the 1 KB limit/);
+  });
+
+  it("refuses private addresses unless allowed", async () => {
+    await expect(loadOutboundFile(`${base}/photo.png`)).rejects.toThrow(/blocked address 127\.0\.0\.1/);
+  });
+
+  it("reads local paths and file URLs", async () => {
+    const path = join(homedir(), "photo.png");
+    await writeFile(path, PNG);
+    expect((await loadOutboundFile(path)).data).toEqual(PNG);
+    expect((await loadOutboundFile(pathToFileURL(path).href)).mimeType).toBe("image/png");
+  });
+
+  it("refuses a local file over the size limit", async () => {
+    const path = join(homedir(), "big.bin");
+    await writeFile(path, Buffer.alloc(64 * 1024));
+    await expect(loadOutboundFile(path, { ...DEFAULT_MEDIA_LIMITS, maxBytes: 1024 })).rejects.toThrow(/65536 bytes, over the 1024 byte limit/);
+  });
+});
+
+describe("readImageDimensions", () => {
+  it("ignores truncated headers", () => {
+    expect(readImageDimensions(PNG.subarray(0, 10), "image/png")).toBeUndefined();
+  });
+});
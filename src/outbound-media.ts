@@ -0,0 +1,82 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { OutboundFile } from "./nip17-bus.js";
+import { mimeTypeForFileName } from "./mime-types.js";
+import { DEFAULT_MEDIA_LIMITS, fetchMedia, type MediaLimits } from "./media-fetch.js";
+
+/**
+ * Load an agent-produced attachment for sending.
+ * Accepts a local path, a file:// URL or an http(s) URL. URLs are downloaded
+ * under the account's media limits (size, deadline, private addresses);
+ * local files over the same size limit are refused before being read.
+ */
+export async function loadOutboundFile(
+  source: string,
+  limits: MediaLimits = DEFAULT_MEDIA_LIMITS,
+): Promise<OutboundFile> {
+  const trimmed = source.trim();
+  let data: Buffer;
+  let fileName: string;
+  let mimeType: string | undefined;
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    const fetched = await fetchMedia(trimmed, limits).catch((err) => {
+      throw new Error(`Failed to fetch outbound media ${trimmed}: ${(err as Error).message}`);
+    });
+    data = fetched.data;
+    fileName = basename(new URL(trimmed).pathname) || "attachment";
+    mimeType = fetched.contentType;
+  } else {
+    const filePath = trimmed.startsWith("file://") ? fileURLToPath(trimmed) : trimmed;
+    const { size } = await stat(filePath);
+    if (size > limits.maxBytes) {
+      throw new Error(`Outbound media ${filePath} is ${size} bytes, over the ${limits.maxBytes} byte limit`);
+    }
+    data = await readFile(filePath);
+    fileName = basename(filePath);
+  }
+
+  const resolvedMimeType = mimeType ?? mimeTypeForFileName(fileName);
+  return {
+    data,
+    mimeType: resolvedMimeType,
+    fileName,
+    dimensions: readImageDimensions(data, resolvedMimeType),
+  };
+}
+
+/**
+ * Read pixel dimensions from PNG, GIF and JPEG headers so outbound kind 15
+ * messages can carry a `dim` tag. Returns undefined for anything else.
+ */
+export function readImageDimensions(
+  data: Buffer,
+  mimeType: string,
+): { width: number; height: number } | undefined {
+  try {
+    if (mimeType === "image/png" && data.length >= 24 && data.toString("ascii", 1, 4) === "PNG") {
+      return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+    if (mimeType === "image/gif" && data.length >= 10 && data.toString("ascii", 0, 3) === "GIF") {
+      return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+    }
+    if (mimeType === "image/jpeg" && data[0] === 0xff && data[1] === 0xd8) {
+      // Walk the segment list until a start-of-frame marker (SOF0..SOF15,
+      // excluding DHT/JPG/DAC which share the range).
+      let offset = 2;
+      while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) return undefined;
+        const marker = data[offset + 1];
+        const length = data.readUInt16BE(offset + 2);
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + length;
+      }
+    }
+  } catch {
+    // Truncated or malformed header — just omit the dim tag
+  }
+  return undefined;
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Event } from "nostr-tools";
+import { openOutbox, type Nip17Outbox } from "./outbox.js";
+import * as stateStore from "./state-store.js";
+
+vi.mock("./state-store.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./state-store.js")>();
+  return { ...actual, writeOutboxState: vi.fn(actual.writeOutboxState) };
+});
+
+const RELAY = "wss://relay.test";
+
+function wrap(id: string, tags: string[][] = []): Event {
+  return { id, pubkey: "p".repeat(64), kind: 1059, created_at: 0, tags, content: "", sig: "" } as Event;
+}
+
+function enqueue(outbox: Nip17Outbox, id: string, tags: string[][] = []): void {
+  outbox.enqueue({
+    id,
+    rumorId: `rumor-${id}`,
+    rumorKind: 14,
+    preview: "hello",
+    recipient: "r".repeat(64),
+    self: false,
+    participants: ["r".repeat(64)],
+    delivered: false,
+    wrap: wrap(id, tags),
+    failedRelays: [{ relay: RELAY, error: "timed out" }],
+  });
+}
+
+let outbox: Nip17Outbox | undefined;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.mocked(stateStore.writeOutboxState).mockReset();
+});
+
+afterEach(async () => {
+  await outbox?.close();
+  outbox = undefined;
+  vi.useRealTimers();
+});
+
+describe("openOutbox", () => {
+  it("retries with backoff until a relay accepts the wrap", async () => {
+    const publish = vi.fn()
+      .mockRejectedValueOnce(new Error("rate limited"))
+      .mockResolvedValueOnce(undefined);
+    const onDelivered = vi.fn();
+    outbox = await openOutbox({ accountId: "retry", publish, onDelivered });
+    enqueue(outbox, "w1");
+
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(outbox.counts()).toEqual({ pending: 1, failed: 0 });
+
+    // Second attempt backs off to 30s
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(publish).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(publish).toHaveBeenCalledTimes(2);
+    expect(publish).toHaveBeenLastCalledWith(RELAY, expect.objectContaining({ id: "w1" }));
+    expect(onDelivered).toHaveBeenCalledWith(expect.objectContaining({ rumorId: "rumor-w1" }));
+    expect(outbox.counts()).toEqual({ pending: 0, failed: 0 });
+  });
+
+  it("retries immediately when the relay reconnects", async () => {
+    const publish = vi.fn().mockResolvedValue(undefined);
+    outbox = await openOutbox({ accountId: "reconnect", publish });
+    enqueue(outbox, "w1");
+
+    outbox.relayConnected(`${RELAY}/`);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(outbox.counts().pending).toBe(0);
+  });
+
+  it("reports a wrap no relay accepted before the deadline", async () => {
+    const publish = vi.fn().mockRejectedValue(new Error("blocked"));
+    const onExpired = vi.fn();
+    outbox = await openOutbox({ accountId: "expire", deadlineMinutes: 1, publish, onExpired });
+    enqueue(outbox, "w1");
+
+    await vi.advanceTimersByTimeAsync(75_000);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(onExpired).toHaveBeenCalledWith(expect.objectContaining({ rumorId: "rumor-w1" }), "blocked");
+    expect(outbox.counts()).toEqual({ pending: 0, failed: 1 });
+  });
+
+  it("gives up at the wrap's NIP-40 expiration", async () => {
+    const publish = vi.fn().mockRejectedValue(new Error("blocked"));
+    const onExpired = vi.fn();
+    outbox = await openOutbox({ accountId: "nip40", publish, onExpired });
+    enqueue(outbox, "w1", [["expiration", String(Math.floor(Date.now() / 1000) + 20)]]);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it("restores pending wraps after a restart", async () => {
+    const first = await openOutbox({ accountId: "restart", publish: vi.fn().mockRejectedValue(new Error("down")) });
+    enqueue(first, "w1");
+    await first.close();
+
+    outbox = await openOutbox({ accountId: "restart", publish: vi.fn().mockRejectedValue(new Error("down")) });
+    expect(outbox.hasRumor("rumor-w1")).toBe(true);
+    expect(outbox.counts().pending).toBe(1);
+  });
+
+  it("only rewrites the file after a change", async () => {
+    // Writes that settle at once, so the count isn't lagging behind real disk I/O
+    vi.mocked(stateStore.writeOutboxState).mockResolvedValue(undefined);
+    const publish = vi.fn().mockRejectedValue(new Error("down"));
+    outbox = await openOutbox({ accountId: "idle", publish });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(stateStore.writeOutboxState).not.toHaveBeenCalled();
+
+    enqueue(outbox, "w1");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stateStore.writeOutboxState).toHaveBeenCalledTimes(1);
+    // First retry at 15s changes the entry; the idle ticks before the next one at 45s don't
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(stateStore.writeOutboxState).toHaveBeenCalledTimes(2);
+  });
+});
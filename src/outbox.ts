@@ -0,0 +1,198 @@
+import type { Event } from "nostr-tools";
+import {
+  readOutboxState,
+  writeOutboxState,
+  type OutboxEntry,
+  type OutboxState,
+} from "./state-store.js";
+
+/**
+ * Durable per-account outbox for gift wraps that did not reach every relay
+ * they were published to. Wraps are stored already signed, so a retry is a
+ * plain re-publish of the same event id (relays dedupe it).
+ *
+ * Each (wrap, relay) pair backs off on its own; a relay coming back online
+ * makes its pending wraps due immediately. When an entry passes its deadline
+ * without any relay having accepted it, it is moved to the failed list and
+ * reported through onExpired. A wrap with a NIP-40 expiration is given up
+ * on at that time at the latest.
+ */
+
+export const DEFAULT_OUTBOX_DEADLINE_MINUTES = 60;
+
+const RETRY_TICK_MS = 15 * 1000;
+const RETRY_BASE_MS = 15 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+const MAX_FAILED_RECORDS = 100;
+
+export interface Nip17Outbox {
+  /** Queue a wrap for the relays that rejected it (or never answered). */
+  enqueue: (
+    entry: Omit<OutboxEntry, "pending" | "createdAt" | "deadlineAt" | "wrap"> & {
+      wrap: Event;
+      failedRelays: Array<{ relay: string; error?: string }>;
+    },
+  ) => void;
+  /** A relay (re)connected — retry everything waiting on it now. */
+  relayConnected: (relay: string) => void;
+  /** Whether a wrap of this rumor is still queued (e.g. from before a restart). */
+  hasRumor: (rumorId: string) => boolean;
+  counts: () => { pending: number; failed: number };
+  /** Stop retrying; resolves once the last write has landed. */
+  close: () => Promise<void>;
+}
+
+export async function openOutbox(opts: {
+  accountId: string;
+  deadlineMinutes?: number;
+  publish: (relay: string, wrap: Event) => Promise<void>;
+  /** A wrap no relay had accepted at first send finally got through. */
+  onDelivered?: (entry: OutboxEntry) => void;
+  onExpired?: (entry: OutboxEntry, lastError: string | undefined) => void;
+  onError?: (error: Error, context: string) => void;
+}): Promise<Nip17Outbox> {
+  const { accountId, publish, onDelivered, onExpired, onError } = opts;
+  const deadlineMs = (opts.deadlineMinutes ?? DEFAULT_OUTBOX_DEADLINE_MINUTES) * 60 * 1000;
+  const normalizeUrl = (u: string) => u.replace(/\/+$/, "").toLowerCase();
+
+  const saved = await readOutboxState({ accountId });
+  const state: OutboxState = {
+    entries: saved?.entries ?? [],
+    failed: saved?.failed ?? [],
+  };
+
+  let closed = false;
+  let tickTimer: ReturnType<typeof setTimeout> | null = null;
+  const inflight = new Set<string>();
+  // Set by retry outcomes and expiry; an idle tick leaves the file alone
+  let dirty = false;
+
+  // Serialize writes so an older snapshot can never land after a newer one
+  let writeChain: Promise<void> = Promise.resolve();
+  function persist(): void {
+    const snapshot = JSON.parse(JSON.stringify(state)) as OutboxState;
+    writeChain = writeChain
+      .then(() => writeOutboxState({ accountId, ...snapshot }))
+      .catch((err) => onError?.(err as Error, "persist outbox"));
+  }
+
+  function scheduleTick(delay = RETRY_TICK_MS): void {
+    if (closed) return;
+    if (tickTimer) clearTimeout(tickTimer);
+    tickTimer = setTimeout(() => {
+      tickTimer = null;
+      void tick();
+    }, delay);
+    // Don't let the retry timer keep the process alive on its own.
+    if (typeof (tickTimer as any)?.unref === "function") (tickTimer as any).unref();
+  }
+
+  function expire(entry: OutboxEntry, now: number): void {
+    state.entries = state.entries.filter((e) => e !== entry);
+    dirty = true;
+    if (entry.delivered || entry.self) {
+      onError?.(
+        new Error(`Outbox gave up on ${entry.pending.map((p) => p.relay).join(", ")} for wrap ${entry.id}`),
+        "outbox",
+      );
+      return;
+    }
+    const lastError = entry.pending.map((p) => p.lastError).filter(Boolean).pop();
+    state.failed.push({ rumorId: entry.rumorId, recipient: entry.recipient, failedAt: now, lastError });
+    if (state.failed.length > MAX_FAILED_RECORDS) state.failed = state.failed.slice(-MAX_FAILED_RECORDS);
+    onExpired?.(entry, lastError);
+  }
+
+  async function attempt(entry: OutboxEntry, target: OutboxEntry["pending"][number]): Promise<void> {
+    const key = `${entry.id}|${target.relay}`;
+    inflight.add(key);
+    try {
+      await publish(target.relay, entry.wrap as unknown as Event);
+      entry.pending = entry.pending.filter((p) => p !== target);
+      if (!entry.delivered && !entry.self) onDelivered?.(entry);
+      entry.delivered = true;
+    } catch (err) {
+      target.attempts += 1;
+      target.lastError = (err as Error)?.message ?? String(err);
+      target.nextAttemptAt = Date.now() + Math.min(RETRY_BASE_MS * Math.pow(2, target.attempts), RETRY_MAX_MS);
+    } finally {
+      inflight.delete(key);
+      dirty = true;
+    }
+  }
+
+  async function tick(): Promise<void> {
+    if (closed) return;
+    const now = Date.now();
+    const due: Promise<void>[] = [];
+
+    for (const entry of [...state.entries]) {
+      if (now >= entry.deadlineAt) {
+        expire(entry, now);
+        continue;
+      }
+      for (const target of entry.pending) {
+        if (target.nextAttemptAt > now || inflight.has(`${entry.id}|${target.relay}`)) continue;
+        due.push(attempt(entry, target));
+      }
+    }
+
+    if (due.length > 0) {
+      await Promise.allSettled(due);
+      state.entries = state.entries.filter((e) => e.pending.length > 0);
+    }
+    if (dirty) {
+      dirty = false;
+      persist();
+    }
+    scheduleTick();
+  }
+
+  if (state.entries.length > 0) {
+    onError?.(new Error(`Outbox restored ${state.entries.length} pending wrap(s)`), "outbox");
+  }
+  scheduleTick(0);
+
+  return {
+    enqueue: (entry) => {
+      const now = Date.now();
+      const { failedRelays, wrap, ...rest } = entry;
+      // Relays refuse a wrap past its NIP-40 expiration, so stop there
+      const expiration = Number(wrap.tags.find((t) => t[0] === "expiration")?.[1]) * 1000;
+      state.entries.push({
+        ...rest,
+        wrap: wrap as unknown as Record<string, unknown>,
+        pending: failedRelays.map(({ relay, error }) => ({
+          relay,
+          attempts: 0,
+          nextAttemptAt: now + RETRY_BASE_MS,
+          lastError: error,
+        })),
+        createdAt: now,
+        deadlineAt: Number.isFinite(expiration) ? Math.min(now + deadlineMs, expiration) : now + deadlineMs,
+      });
+      persist();
+    },
+    relayConnected: (relay) => {
+      const url = normalizeUrl(relay);
+      let due = false;
+      for (const entry of state.entries) {
+        for (const target of entry.pending) {
+          if (normalizeUrl(target.relay) === url) {
+            target.nextAttemptAt = Date.now();
+            due = true;
+          }
+        }
+      }
+      if (due) scheduleTick(0);
+    },
+    hasRumor: (rumorId) => state.entries.some((e) => e.rumorId === rumorId),
+    counts: () => ({ pending: state.entries.length, failed: state.failed.length }),
+    close: () => {
+      closed = true;
+      if (tickTimer) clearTimeout(tickTimer);
+      if (dirty) persist();
+      return writeChain;
+    },
+  };
+}
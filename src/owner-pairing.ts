@@ -0,0 +1,160 @@
+import { normalizePubkey, pubkeyToNpub } from "./nip17-bus.js";
+import {
+  readPairingState,
+  writePairingState,
+  type PairingRequest,
+  type PairingState,
+} from "./state-store.js";
+
+/**
+ * Pairing decided over Nostr instead of the shell: an unknown sender's
+ * request is forwarded to the account's owners, who answer the notice with
+ * "approve"/"deny" (or react ✅/❌). Requests and decisions persist per
+ * account; the channel does the messaging.
+ */
+
+export interface PairingMessages {
+  /** Sent to the requester when their request is forwarded */
+  pending: string;
+  approved: string;
+  denied: string;
+}
+
+export const DEFAULT_PAIRING_MESSAGES: PairingMessages = {
+  pending: "Thanks for your message! I only chat with people my owner has approved. Your request has been passed on, and you'll hear back here once it's decided.",
+  approved: "Your pairing request has been approved!",
+  denied: "Sorry, your pairing request was declined.",
+};
+
+export type OwnerDecision = "approve" | "deny";
+
+// A burst of new keys must not grow the file (or the owners' inbox) forever
+const MAX_PENDING = 50;
+
+/**
+ * Fill `{name}`, `{npub}` and `{code}` in a message template. `{name}` falls
+ * back to the npub; other placeholders without a value are removed.
+ */
+export function formatPairingMessage(
+  template: string,
+  vars: { name?: string; npub?: string; code?: string },
+): string {
+  const values = { ...vars, name: vars.name ?? vars.npub };
+  return template
+    .replace(/\{(name|npub|code)\}/g, (_, key: keyof typeof values) => values[key] ?? "")
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * An owner's answer in a DM: "approve" or "deny", optionally followed by the
+ * requester (npub, hex, alias or pairing code). Null for anything else, so
+ * ordinary messages from an owner still reach the agent.
+ */
+export function parseOwnerDecision(text: string): { decision: OwnerDecision; target?: string } | null {
+  const match = /^\s*(approve|deny|✅|❌)(?:\s+(\S+))?\s*$/iu.exec(text);
+  if (!match) return null;
+  const word = match[1].toLowerCase();
+  return { decision: word === "approve" || word === "✅" ? "approve" : "deny", target: match[2] };
+}
+
+export function reactionDecision(emoji: string): OwnerDecision | null {
+  if (emoji === "✅") return "approve";
+  if (emoji === "❌") return "deny";
+  return null;
+}
+
+export interface PairingBook {
+  status: (pubkey: string) => "approved" | "denied" | "pending" | "unknown";
+  /** Requesters the owners approved, for the framework's allowlist view */
+  approved: () => string[];
+  pending: () => PairingRequest[];
+  /** Record a new request; an older one from the same sender is replaced. */
+  add: (request: Omit<PairingRequest, "requestedAt" | "noticeIds">) => PairingRequest;
+  addNotice: (requester: string, noticeId: string) => void;
+  /** The request a notice belongs to, or the one named by pubkey or code. */
+  find: (opts: { noticeId?: string; target?: string }) => PairingRequest | undefined;
+  decide: (requester: string, decision: OwnerDecision) => void;
+  close: () => Promise<void>;
+}
+
+export async function openPairingBook(opts: {
+  accountId: string;
+  onError?: (error: Error, context: string) => void;
+}): Promise<PairingBook> {
+  const { accountId, onError } = opts;
+  const saved = await readPairingState({ accountId });
+  const state: PairingState = {
+    pending: saved?.pending ?? [],
+    approved: saved?.approved ?? [],
+    denied: saved?.denied ?? [],
+  };
+
+  // Serialize writes so an older snapshot can never land after a newer one
+  let writeChain: Promise<void> = Promise.resolve();
+  function persist(): void {
+    const snapshot = JSON.parse(JSON.stringify(state)) as PairingState;
+    writeChain = writeChain
+      .then(() => writePairingState({ accountId, ...snapshot }))
+      .catch((err) => onError?.(err as Error, "persist pairing requests"));
+  }
+
+  const toHex = (input: string): string | undefined => {
+    try {
+      return normalizePubkey(input);
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    status: (pubkey) => {
+      if (state.approved.includes(pubkey)) return "approved";
+      if (state.denied.includes(pubkey)) return "denied";
+      return state.pending.some((r) => r.requester === pubkey) ? "pending" : "unknown";
+    },
+    approved: () => [...state.approved],
+    pending: () => [...state.pending],
+    add: (request) => {
+      const entry: PairingRequest = { ...request, requestedAt: Date.now(), noticeIds: [] };
+      state.pending = [...state.pending.filter((r) => r.requester !== request.requester), entry].slice(-MAX_PENDING);
+      persist();
+      return entry;
+    },
+    addNotice: (requester, noticeId) => {
+      const entry = state.pending.find((r) => r.requester === requester);
+      if (!entry) return;
+      entry.noticeIds.push(noticeId);
+      persist();
+    },
+    find: ({ noticeId, target }) => {
+      if (noticeId) {
+        const byNotice = state.pending.find((r) => r.noticeIds.includes(noticeId));
+        if (byNotice) return byNotice;
+      }
+      if (!target) return undefined;
+      const pubkey = toHex(target);
+      return state.pending.find((r) => r.requester === pubkey || r.code?.toLowerCase() === target.toLowerCase());
+    },
+    decide: (requester, decision) => {
+      state.pending = state.pending.filter((r) => r.requester !== requester);
+      state.approved = state.approved.filter((p) => p !== requester);
+      state.denied = state.denied.filter((p) => p !== requester);
+      (decision === "approve" ? state.approved : state.denied).push(requester);
+      persist();
+    },
+    close: () => writeChain,
+  };
+}
+
+/**
+ * Notice DMed to each owner. Quotes the start of the first message so the
+ * owner can tell a person from a spammer.
+ */
+export function formatOwnerNotice(request: PairingRequest): string {
+  const npub = pubkeyToNpub(request.requester);
+  const quoted = request.firstMessage.length > 280 ? `${request.firstMessage.slice(0, 280)}…` : request.firstMessage;
+  const who = request.name ? `${request.name} (${npub})` : npub;
+  const code = request.code ? ` Pairing code: ${request.code}.` : "";
+  return `Pairing request from ${who}:\n"${quoted}"\n\nReply "approve" or "deny" to this message, or react ✅ / ❌.${code}`;
+}
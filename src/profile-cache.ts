@@ -0,0 +1,141 @@
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { SimplePool, type Event } from "nostr-tools";
+import { DISCOVERY_RELAYS } from "./relay-cache.js";
+import { verifyNip05, type Nip05Status } from "./nip05.js";
+
+const CACHE_DIR = join(homedir(), ".openclaw", "state", "nostr-nip17", "profile-cache");
+
+// In-memory cache to avoid hitting disk on every inbound message
+const memoryCache = new Map<string, SenderProfile>();
+
+// Re-fetch from relays if cache is older than this
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+// Profile lookups sit in front of every inbound message on a cold cache;
+// don't let a slow relay hold the reply up for long.
+const QUERY_MAX_WAIT_MS = 3000;
+
+/**
+ * Display details for a sender, from their kind 0 profile.
+ * `nip05Status` is absent when the profile has no NIP-05 identifier.
+ */
+export interface SenderProfile {
+  pubkey: string;
+  name?: string;
+  displayName?: string;
+  nip05?: string;
+  nip05Status?: Nip05Status;
+  fetchedAt: number;
+}
+
+function cacheFilePath(pubkey: string): string {
+  return join(CACHE_DIR, `${pubkey}-0.json`);
+}
+
+/**
+ * Read a cached profile for a pubkey.
+ */
+async function readCached(pubkey: string): Promise<SenderProfile | null> {
+  // Check memory first
+  const mem = memoryCache.get(pubkey);
+  if (mem) return mem;
+
+  try {
+    const data = JSON.parse(await readFile(cacheFilePath(pubkey), "utf-8")) as SenderProfile;
+    memoryCache.set(pubkey, data);
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a resolved profile to disk cache.
+ */
+async function writeCache(profile: SenderProfile): Promise<void> {
+  await mkdir(CACHE_DIR, { recursive: true });
+  await writeFile(cacheFilePath(profile.pubkey), JSON.stringify(profile, null, 2));
+  memoryCache.set(profile.pubkey, profile);
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Fetch the kind 0 profile for a pubkey and verify its NIP-05 identifier.
+ * Queries the configured relays plus the discovery relays, like kind 10050.
+ */
+async function fetchProfile(
+  pool: SimplePool,
+  pubkey: string,
+  queryRelays: string[],
+): Promise<SenderProfile> {
+  const normalizeUrl = (u: string) => u.replace(/\/+$/, "").toLowerCase();
+  const seen = new Set(queryRelays.map(normalizeUrl));
+  const allQueryRelays = [...queryRelays, ...DISCOVERY_RELAYS.filter((r) => !seen.has(normalizeUrl(r)))];
+
+  const events: Event[] = await pool.querySync(
+    allQueryRelays,
+    { kinds: [0], authors: [pubkey], limit: 1 },
+    { maxWait: QUERY_MAX_WAIT_MS },
+  );
+  const latest = events.sort((a, b) => b.created_at - a.created_at)[0];
+
+  let content: Record<string, unknown> = {};
+  if (latest) {
+    try { content = JSON.parse(latest.content) ?? {}; } catch { content = {}; }
+  }
+
+  const nip05 = stringField(content.nip05);
+  return {
+    pubkey,
+    name: stringField(content.name),
+    displayName: stringField(content.display_name) ?? stringField(content.displayName),
+    nip05,
+    nip05Status: nip05 ? await verifyNip05(nip05, pubkey) : undefined,
+    fetchedAt: Date.now(),
+  };
+}
+
+/**
+ * Get the display profile for a sender pubkey.
+ * Uses cache if fresh, otherwise fetches from relays. Never throws: on a
+ * failed fetch the stale cache entry (or a bare `{ pubkey }`) is returned.
+ */
+export async function getSenderProfile(
+  pool: SimplePool,
+  pubkey: string,
+  queryRelays: string[],
+  onError?: (error: Error, context: string) => void,
+): Promise<SenderProfile> {
+  // Check cache
+  const cached = await readCached(pubkey);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached;
+  }
+
+  // Fetch fresh
+  try {
+    const profile = await fetchProfile(pool, pubkey, queryRelays);
+    await writeCache(profile);
+    return profile;
+  } catch (err) {
+    onError?.(err as Error, `fetch kind 0 for ${pubkey}`);
+    return cached ?? { pubkey, fetchedAt: 0 };
+  }
+}
+
+/**
+ * Human-readable label for log lines and agent context: display name, else
+ * name, else a verified NIP-05, else a shortened pubkey.
+ */
+export function senderLabel(profile: SenderProfile | undefined, pubkey: string): string {
+  const short = `${pubkey.slice(0, 8)}…`;
+  const name = profile?.displayName ?? profile?.name;
+  const verifiedNip05 = profile?.nip05Status === "verified" ? profile.nip05 : undefined;
+  if (name && verifiedNip05) return `${name} (${verifiedNip05})`;
+  return name ?? verifiedNip05 ?? short;
+}
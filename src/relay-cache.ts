@@ -8,7 +8,7 @@ const CACHE_DIR = join(homedir(), ".openclaw", "state", "nostr-nip17", "relay-ca
 // Well-known relays for discovering kind 10050 events.
 // DM-only relays (like nip17.com) often reject non-1059 kinds,
 // so we need general-purpose relays for metadata lookups.
-const DISCOVERY_RELAYS = [
+export const DISCOVERY_RELAYS = [
   "wss://relay.damus.io",
   "wss://purplepag.es",
   "wss://relay.primal.net",
@@ -0,0 +1,46 @@
+/**
+ * In-memory record of recent rumors (inbound and outbound), keyed by the
+ * bot identity that saw them. Used to resolve `e` reply tags back to the
+ * message being replied to without another relay round-trip.
+ *
+ * Module-level like the dedup set in nip17-bus.ts, so a lazily started
+ * outbound bus and the gateway bus for the same key share one record.
+ */
+export interface RecordedRumor {
+  id: string;
+  pubkey: string;
+  kind: number;
+  content: string;
+  createdAt: number;
+  /** NIP-40 expiration (unix seconds); the rumor is forgotten after it */
+  expiresAt?: number;
+}
+
+const MAX_RECORDED_PER_IDENTITY = 1000;
+
+const logs = new Map<string, Map<string, RecordedRumor>>();
+
+export function recordRumor(ownerPubkey: string, rumor: RecordedRumor): void {
+  let log = logs.get(ownerPubkey);
+  if (!log) {
+    log = new Map();
+    logs.set(ownerPubkey, log);
+  }
+  log.delete(rumor.id);
+  log.set(rumor.id, rumor);
+  // Map iteration order is insertion order — drop the oldest first
+  while (log.size > MAX_RECORDED_PER_IDENTITY) {
+    const oldest = log.keys().next().value;
+    if (oldest === undefined) break;
+    log.delete(oldest);
+  }
+}
+
+export function lookupRumor(ownerPubkey: string, id: string): RecordedRumor | undefined {
+  const rumor = logs.get(ownerPubkey)?.get(id);
+  if (rumor?.expiresAt !== undefined && rumor.expiresAt <= Date.now() / 1000) {
+    logs.get(ownerPubkey)!.delete(id);
+    return undefined;
+  }
+  return rumor;
+}
@@ -0,0 +1,86 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { createHash } from "node:crypto";
+import { bytesToHex } from "nostr-tools/utils";
+import * as nip49 from "nostr-tools/nip49";
+
+/**
+ * Secret references accepted wherever the config takes a key:
+ *
+ *   env:NOSTR_NSEC_CODEX         — read from an environment variable
+ *   file:/run/secrets/codex.nsec — read from a file (trimmed, `~` expanded)
+ *   anything else                — used literally
+ *
+ * A resolved private key may itself be a NIP-49 `ncryptsec1...`, in which
+ * case `privateKeyPassword` (an env: or file: reference) decrypts it.
+ */
+
+// NIP-49 uses scrypt; resolveNip17Account runs on every status/config call,
+// so decrypted keys are cached for the life of the process.
+const decryptedKeyCache = new Map<string, string>();
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith("~/") ? `${homedir()}${filePath.slice(1)}` : filePath;
+}
+
+function isReference(value: string): boolean {
+  return /^(env|file):/i.test(value.trim());
+}
+
+/**
+ * Resolve an env:/file: reference (or pass a literal through).
+ * Throws with a message naming the reference when it cannot be read.
+ */
+export function resolveSecretReference(value: string, label: string): string {
+  const trimmed = value.trim();
+
+  if (/^env:/i.test(trimmed)) {
+    const name = trimmed.slice(4).trim();
+    const resolved = process.env[name]?.trim();
+    if (!resolved) throw new Error(`${label}: environment variable ${name} is not set`);
+    return resolved;
+  }
+
+  if (/^file:/i.test(trimmed)) {
+    const filePath = expandHome(trimmed.slice(5).trim());
+    let contents: string;
+    try {
+      contents = readFileSync(filePath, "utf-8").trim();
+    } catch (err) {
+      throw new Error(`${label}: cannot read ${filePath} (${(err as NodeJS.ErrnoException).code ?? (err as Error).message})`);
+    }
+    if (!contents) throw new Error(`${label}: ${filePath} is empty`);
+    return contents;
+  }
+
+  return trimmed;
+}
+
+/**
+ * Resolve a configured private key to a usable nsec/hex string.
+ */
+export function resolvePrivateKeySource(value: string, passwordRef?: string): string {
+  const key = resolveSecretReference(value, "privateKey");
+  if (!key.startsWith("ncryptsec1")) return key;
+
+  if (!passwordRef?.trim()) {
+    throw new Error("privateKey: ncryptsec key requires privateKeyPassword (env: or file: reference)");
+  }
+  if (!isReference(passwordRef)) {
+    throw new Error("privateKeyPassword must be an env: or file: reference, not a literal password");
+  }
+  const password = resolveSecretReference(passwordRef, "privateKeyPassword");
+
+  const cacheKey = createHash("sha256").update(`${key}\0${password}`).digest("hex");
+  const cached = decryptedKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  let decrypted: string;
+  try {
+    decrypted = bytesToHex(nip49.decrypt(key, password));
+  } catch {
+    throw new Error("privateKey: cannot decrypt ncryptsec key (wrong password or corrupt key)");
+  }
+  decryptedKeyCache.set(cacheKey, decrypted);
+  return decrypted;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { openSentRumorLog } from "./sent-rumors.js";
+import { writeSentRumorState } from "./state-store.js";
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("openSentRumorLog", () => {
+  it("remembers published rumors across a restart", async () => {
+    const log = await openSentRumorLog({ accountId: "restart" });
+    log.add("a".repeat(64), now());
+    expect(log.has("a".repeat(64))).toBe(true);
+    await log.close();
+
+    const reopened = await openSentRumorLog({ accountId: "restart" });
+    expect(reopened.has("a".repeat(64))).toBe(true);
+    expect(reopened.has("b".repeat(64))).toBe(false);
+  });
+
+  it("forgets rumors older than the self-copy window", async () => {
+    await writeSentRumorState({
+      accountId: "aged",
+      rumors: [
+        { id: "old", createdAt: now() - 3 * 24 * 60 * 60 },
+        { id: "recent", createdAt: now() - 60 },
+      ],
+    });
+    const log = await openSentRumorLog({ accountId: "aged" });
+    expect(log.has("old")).toBe(false);
+    expect(log.has("recent")).toBe(true);
+  });
+
+  it("keeps only the newest rumors", async () => {
+    const log = await openSentRumorLog({ accountId: "capped" });
+    for (let i = 0; i < 1001; i++) log.add(`r${i}`, now());
+    expect(log.has("r0")).toBe(false);
+    expect(log.has("r1")).toBe(true);
+    expect(log.has("r1000")).toBe(true);
+    await log.close();
+  });
+});
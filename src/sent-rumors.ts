@@ -0,0 +1,54 @@
+import { readSentRumorState, writeSentRumorState, type SentRumorState } from "./state-store.js";
+
+/**
+ * Ids of the rumors this account published. The in-memory rumor log is gone
+ * after a restart, but the self-copies of the last few minutes' messages are
+ * still delivered then; without this record they would look like an operator
+ * writing from another client and pause the agent.
+ */
+
+// Self-copy wraps are fetched from up to two days back (NIP-59 timestamps)
+const MAX_AGE_SEC = 2 * 24 * 60 * 60;
+const MAX_RUMORS = 1000;
+
+export interface SentRumorLog {
+  add: (rumorId: string, createdAt: number) => void;
+  has: (rumorId: string) => boolean;
+  /** Resolves once the last write has landed. */
+  close: () => Promise<void>;
+}
+
+export async function openSentRumorLog(opts: {
+  accountId: string;
+  onError?: (error: Error, context: string) => void;
+}): Promise<SentRumorLog> {
+  const { accountId, onError } = opts;
+  const saved = await readSentRumorState({ accountId });
+  const cutoff = Math.floor(Date.now() / 1000) - MAX_AGE_SEC;
+  let rumors: SentRumorState["rumors"] = (saved?.rumors ?? []).filter((r) => r.createdAt >= cutoff);
+  const ids = new Set(rumors.map((r) => r.id));
+
+  // Serialize writes so an older snapshot can never land after a newer one
+  let writeChain: Promise<void> = Promise.resolve();
+  function persist(): void {
+    const snapshot = [...rumors];
+    writeChain = writeChain
+      .then(() => writeSentRumorState({ accountId, rumors: snapshot }))
+      .catch((err) => onError?.(err as Error, "persist sent rumors"));
+  }
+
+  return {
+    add: (rumorId, createdAt) => {
+      if (ids.has(rumorId)) return;
+      ids.add(rumorId);
+      rumors.push({ id: rumorId, createdAt });
+      if (rumors.length > MAX_RUMORS) {
+        for (const dropped of rumors.slice(0, rumors.length - MAX_RUMORS)) ids.delete(dropped.id);
+        rumors = rumors.slice(-MAX_RUMORS);
+      }
+      persist();
+    },
+    has: (rumorId) => ids.has(rumorId),
+    close: () => writeChain,
+  };
+}
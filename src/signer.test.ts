@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { finalizeEvent, generateSecretKey, getPublicKey, verifyEvent, type Event } from "nostr-tools";
+import * as nip44 from "nostr-tools/nip44";
+import {
+  connectBunkerSigner,
+  createLocalSigner,
+  createRumorForSigner,
+  unwrapGiftWrapWithSigner,
+  wrapRumorWithSigner,
+} from "./signer.js";
+
+/**
+ * Stand-in NIP-46 bunker behind a stand-in pool: requests the client
+ * publishes are answered in-process, no relay involved.
+ */
+function standInBunker(userSk: Uint8Array, opts: { silent?: boolean } = {}) {
+  const userPk = getPublicKey(userSk);
+  const subs = new Set<(event: Event) => void>();
+  const methods: string[] = [];
+
+  const answer = (request: Event) => {
+    const conversationKey = nip44.getConversationKey(userSk, request.pubkey);
+    const { id, method, params } = JSON.parse(nip44.decrypt(request.content, conversationKey));
+    methods.push(method);
+    if (opts.silent) return;
+    const result = {
+      connect: () => "ack",
+      get_public_key: () => userPk,
+      sign_event: () => JSON.stringify(finalizeEvent(JSON.parse(params[0]), userSk)),
+      nip44_encrypt: () => nip44.encrypt(params[1], nip44.getConversationKey(userSk, params[0])),
+      nip44_decrypt: () => nip44.decrypt(params[1], nip44.getConversationKey(userSk, params[0])),
+    }[method as string]?.();
+    const response = finalizeEvent({
+      kind: 24133,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [["p", request.pubkey]],
+      content: nip44.encrypt(JSON.stringify(result === undefined ? { id, error: "unsupported" } : { id, result }), conversationKey),
+    }, userSk);
+    for (const deliver of subs) deliver(response);
+  };
+
+  const pool = {
+    subscribe: (_relays: string[], _filter: unknown, params: { onevent: (event: Event) => void }) => {
+      subs.add(params.onevent);
+      return { close: () => subs.delete(params.onevent) };
+    },
+    publish: (_relays: string[], event: Event) => {
+      setTimeout(() => answer(event), 0);
+      return [Promise.resolve("ok")];
+    },
+  };
+
+  return { pool: pool as any, url: `bunker://${userPk}?relay=wss://relay.test`, methods };
+}
+
+describe("connectBunkerSigner", () => {
+  it("signs and encrypts through the bunker", async () => {
+    const userSk = generateSecretKey();
+    const bunker = standInBunker(userSk);
+    const signer = await connectBunkerSigner({ bunker: bunker.url, accountId: "bunker-ok", fallbackRelays: [], pool: bunker.pool });
+
+    expect(signer.publicKey).toBe(getPublicKey(userSk));
+    const event = await signer.signEvent({ kind: 1, created_at: 1, tags: [], content: "hi" });
+    expect(verifyEvent(event)).toBe(true);
+    expect(event.pubkey).toBe(signer.publicKey);
+
+    const peer = createLocalSigner(generateSecretKey());
+    const ciphertext = await signer.nip44Encrypt(peer.publicKey, "secret");
+    expect(await peer.nip44Decrypt(signer.publicKey, ciphertext)).toBe("secret");
+    expect(await signer.nip44Decrypt(peer.publicKey, await peer.nip44Encrypt(signer.publicKey, "reply"))).toBe("reply");
+    await signer.close?.();
+  });
+
+  it("reuses the persisted client key", async () => {
+    const userSk = generateSecretKey();
+    const clientKeys: string[] = [];
+    for (let i = 0; i < 2; i++) {
+      const bunker = standInBunker(userSk);
+      const publish = bunker.pool.publish;
+      bunker.pool.publish = (relays: string[], event: Event) => {
+        clientKeys.push(event.pubkey);
+        return publish(relays, event);
+      };
+      const signer = await connectBunkerSigner({ bunker: bunker.url, accountId: "bunker-persist", fallbackRelays: [], pool: bunker.pool });
+      await signer.close?.();
+    }
+    expect(new Set(clientKeys).size).toBe(1);
+  });
+
+  it("gives up on a bunker that never answers and reports it", async () => {
+    const bunker = standInBunker(generateSecretKey(), { silent: true });
+    const errors: string[] = [];
+
+    await expect(connectBunkerSigner({
+      bunker: bunker.url,
+      accountId: "bunker-silent",
+      fallbackRelays: [],
+      pool: bunker.pool,
+      timeoutMs: 50,
+      onError: (_err, context) => errors.push(context),
+    })).rejects.toThrow(/did not answer get_public_key/);
+
+    expect(bunker.methods).toEqual(["connect", "get_public_key"]);
+    expect(errors).toEqual(["nip46-connect", "nip46-get_public_key"]);
+  });
+});
+
+describe("unwrapGiftWrapWithSigner", () => {
+  const sender = createLocalSigner(generateSecretKey());
+  const recipient = createLocalSigner(generateSecretKey());
+  const rumor = () => createRumorForSigner(sender, { kind: 14, content: "hi", tags: [], created_at: Math.floor(Date.now() / 1000) });
+
+  it("returns the rumor the sender sealed", async () => {
+    const sent = rumor();
+    const wrap = await wrapRumorWithSigner(sender, sent, recipient.publicKey);
+    expect(await unwrapGiftWrapWithSigner(recipient, wrap)).toEqual(sent);
+  });
+
+  it("rejects a rumor whose id does not hash from its content", async () => {
+    // e.g. an id with leading zeros copied in to fake proof of work
+    const spoofed = { ...rumor(), id: "0".repeat(16) + "f".repeat(48) };
+    const wrap = await wrapRumorWithSigner(sender, spoofed, recipient.publicKey);
+    await expect(unwrapGiftWrapWithSigner(recipient, wrap)).rejects.toThrow(/does not match its content/);
+  });
+});
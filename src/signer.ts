@@ -0,0 +1,240 @@
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getEventHash,
+  getPublicKey,
+  verifyEvent,
+  type Event,
+  type EventTemplate,
+  type UnsignedEvent,
+  type VerifiedEvent,
+} from "nostr-tools";
+import * as nip44 from "nostr-tools/nip44";
+import { nip44DecryptBytes } from "./media-handler.js";
+import { createWrap } from "nostr-tools/nip59";
+import { BunkerSigner, parseBunkerInput } from "nostr-tools/nip46";
+import type { AbstractSimplePool } from "nostr-tools/abstract-pool";
+import { readNip46ClientState, writeNip46ClientState } from "./state-store.js";
+
+/**
+ * Everything the bus needs from the account's identity key. Gift wrap/unwrap,
+ * AUTH, Blossom upload auth and replaceable-list publishing all go through
+ * this, so the key itself can live in a NIP-46 remote signer.
+ */
+export interface Nip17Signer {
+  /** Hex pubkey of the identity this signer signs as. */
+  publicKey: string;
+  signEvent: (template: EventTemplate) => Promise<VerifiedEvent>;
+  nip44Encrypt: (pubkey: string, plaintext: string) => Promise<string>;
+  nip44Decrypt: (pubkey: string, ciphertext: string) => Promise<string>;
+  /**
+   * NIP-44 decryption to raw bytes, for binary attachments. Only local keys
+   * can offer it; remote signers return text.
+   */
+  nip44DecryptBytes?: (pubkey: string, ciphertext: string) => Promise<Uint8Array>;
+  close?: () => Promise<void> | void;
+}
+
+/** NIP-59 rumor: an unsigned event with its id. */
+export type Nip17Rumor = UnsignedEvent & { id: string };
+
+const TWO_DAYS_SEC = 2 * 24 * 60 * 60;
+
+// NIP-59: seal timestamps are randomized up to two days in the past so
+// relays can't correlate them with the real send time.
+const randomPastTimestamp = (): number =>
+  Math.round(Date.now() / 1000 - Math.random() * TWO_DAYS_SEC);
+
+// ============================================================================
+// Local signer (raw nsec/hex key in config)
+// ============================================================================
+
+export function createLocalSigner(sk: Uint8Array): Nip17Signer {
+  const conversationKeys = new Map<string, Uint8Array>();
+  const conversationKey = (pubkey: string): Uint8Array => {
+    let key = conversationKeys.get(pubkey);
+    if (!key) {
+      key = nip44.getConversationKey(sk, pubkey);
+      conversationKeys.set(pubkey, key);
+    }
+    return key;
+  };
+
+  return {
+    publicKey: getPublicKey(sk),
+    signEvent: async (template) => finalizeEvent(template, sk),
+    nip44Encrypt: async (pubkey, plaintext) => nip44.v2.encrypt(plaintext, conversationKey(pubkey)),
+    nip44Decrypt: async (pubkey, ciphertext) => nip44.v2.decrypt(ciphertext, conversationKey(pubkey)),
+    nip44DecryptBytes: async (pubkey, ciphertext) => nip44DecryptBytes(ciphertext, conversationKey(pubkey)),
+  };
+}
+
+// ============================================================================
+// NIP-46 remote signer (bunker://)
+// ============================================================================
+
+// nostr-tools waits for a bunker's answer forever; an unreachable bunker
+// would hang startup and every unwrap behind it.
+const DEFAULT_BUNKER_TIMEOUT_MS = 30_000;
+
+/**
+ * Connect to a NIP-46 remote signer. The bunker's own relays (from the URL)
+ * are used for the signer channel; `fallbackRelays` (normally the account's
+ * relays) are used when the URL doesn't name any.
+ *
+ * The local client key is persisted per account so the bunker only has to
+ * authorize this gateway once.
+ */
+export async function connectBunkerSigner(opts: {
+  bunker: string;
+  accountId: string;
+  fallbackRelays: string[];
+  /** Per-request deadline. Defaults to 30 seconds. */
+  timeoutMs?: number;
+  /** Pool for the signer channel; a fresh one by default. */
+  pool?: AbstractSimplePool;
+  onError?: (error: Error, context: string) => void;
+}): Promise<Nip17Signer> {
+  const pointer = await parseBunkerInput(opts.bunker.trim());
+  if (!pointer) {
+    throw new Error("Invalid NIP-46 signer: expected a bunker:// URL or NIP-05 bunker identifier");
+  }
+  if (pointer.relays.length === 0) pointer.relays = opts.fallbackRelays;
+
+  const saved = await readNip46ClientState({ accountId: opts.accountId });
+  let clientSecretKey: Uint8Array;
+  if (saved?.clientSecretKey && /^[0-9a-f]{64}$/i.test(saved.clientSecretKey)) {
+    clientSecretKey = Uint8Array.from(Buffer.from(saved.clientSecretKey, "hex"));
+  } else {
+    clientSecretKey = generateSecretKey();
+    await writeNip46ClientState({
+      accountId: opts.accountId,
+      clientSecretKey: Buffer.from(clientSecretKey).toString("hex"),
+    });
+  }
+
+  const bunker = BunkerSigner.fromBunker(clientSecretKey, pointer, {
+    pool: opts.pool,
+    onauth: (url) => {
+      opts.onError?.(new Error(`NIP-46 signer requests authorization at ${url}`), "nip46-auth");
+    },
+  });
+
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_BUNKER_TIMEOUT_MS;
+  const request = <T>(method: string, call: () => Promise<T>): Promise<T> => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`NIP-46 signer did not answer ${method} within ${timeoutMs / 1000}s`)),
+        timeoutMs,
+      );
+    });
+    return Promise.race([call(), deadline])
+      .catch((err) => {
+        const error = err instanceof Error ? err : new Error(String(err));
+        opts.onError?.(error, `nip46-${method}`);
+        throw error;
+      })
+      .finally(() => clearTimeout(timer));
+  };
+
+  // A bunker that already authorized this client key may reject a second
+  // `connect` (the one-time secret is spent); get_public_key is the real test.
+  await request("connect", () => bunker.connect()).catch(() => {});
+  let publicKey: string;
+  try {
+    publicKey = await request("get_public_key", () => bunker.getPublicKey());
+  } catch (err) {
+    await bunker.close();
+    throw err;
+  }
+
+  return {
+    publicKey,
+    signEvent: (template) => request("sign_event", () => bunker.signEvent(template)),
+    nip44Encrypt: (pubkey, plaintext) => request("nip44_encrypt", () => bunker.nip44Encrypt(pubkey, plaintext)),
+    nip44Decrypt: (pubkey, ciphertext) => request("nip44_decrypt", () => bunker.nip44Decrypt(pubkey, ciphertext)),
+    close: () => bunker.close(),
+  };
+}
+
+// ============================================================================
+// NIP-59 gift wrap via signer
+// ============================================================================
+
+/**
+ * Build an unsigned rumor (NIP-59) authored by the signer's identity.
+ */
+export function createRumorForSigner(
+  signer: Nip17Signer,
+  event: { kind: number; content: string; tags: string[][]; created_at: number },
+): Nip17Rumor {
+  const unsigned = { ...event, pubkey: signer.publicKey };
+  return { ...unsigned, id: getEventHash(unsigned) };
+}
+
+/**
+ * Seal a rumor for one recipient (kind 13, signed by the identity) and wrap
+ * it in a kind 1059 gift wrap signed by a fresh ephemeral key. With
+ * `expiresAt` the wrap carries a NIP-40 `expiration` tag, so relays drop it
+ * at that time.
+ */
+export async function wrapRumorWithSigner(
+  signer: Nip17Signer,
+  rumor: Nip17Rumor,
+  recipientPubkey: string,
+  expiresAt?: number,
+): Promise<Event> {
+  const seal = await signer.signEvent({
+    kind: 13,
+    content: await signer.nip44Encrypt(recipientPubkey, JSON.stringify(rumor)),
+    created_at: randomPastTimestamp(),
+    tags: [],
+  });
+  if (expiresAt === undefined) return createWrap(seal, recipientPubkey);
+
+  // nip59.createWrap takes no extra tags; same construction otherwise
+  const ephemeralKey = generateSecretKey();
+  return finalizeEvent(
+    {
+      kind: 1059,
+      content: nip44.encrypt(JSON.stringify(seal), nip44.getConversationKey(ephemeralKey, recipientPubkey)),
+      created_at: randomPastTimestamp(),
+      tags: [["p", recipientPubkey], ["expiration", String(expiresAt)]],
+    },
+    ephemeralKey,
+  );
+}
+
+/**
+ * Unwrap a kind 1059 gift wrap addressed to the signer's identity.
+ * Verifies the seal signature and that the rumor author matches the seal
+ * signer (NIP-17: otherwise anyone could impersonate any sender).
+ */
+export async function unwrapGiftWrapWithSigner(signer: Nip17Signer, wrap: Event): Promise<Nip17Rumor> {
+  return (await unwrapGiftWrapWithSeal(signer, wrap)).rumor;
+}
+
+/**
+ * Same as unwrapGiftWrapWithSigner, also returning the verified seal (e.g.
+ * for its NIP-13 proof of work).
+ */
+export async function unwrapGiftWrapWithSeal(
+  signer: Nip17Signer,
+  wrap: Event,
+): Promise<{ rumor: Nip17Rumor; seal: Event }> {
+  const seal = JSON.parse(await signer.nip44Decrypt(wrap.pubkey, wrap.content)) as Event;
+  if (seal.kind !== 13 || !verifyEvent(seal)) {
+    throw new Error(`Invalid seal inside gift wrap ${wrap.id}`);
+  }
+  const rumor = JSON.parse(await signer.nip44Decrypt(seal.pubkey, seal.content)) as Nip17Rumor;
+  if (rumor.pubkey !== seal.pubkey) {
+    throw new Error(`Rumor author ${rumor.pubkey} does not match seal signer ${seal.pubkey}`);
+  }
+  // The rumor is unsigned, so its id is only a claim: recompute it, or a
+  // sender could pass off a mined id as proof of work they never did
+  if (rumor.id !== getEventHash(rumor)) {
+    throw new Error(`Rumor id ${rumor.id} does not match its content in gift wrap ${wrap.id}`);
+  }
+  return { rumor, seal };
+}
@@ -1,4 +1,4 @@
-import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { readFile, writeFile, mkdir, appendFile, rename } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
 
@@ -35,3 +35,243 @@ export function computeSinceTimestamp(state: NostrBusState | null, gatewayStarte
   if (state?.lastProcessedAt) return state.lastProcessedAt;
   return gatewayStartedAt;
 }
+
+/**
+ * NIP-46 client session for an account using a remote signer. The client key
+ * only identifies this gateway to the bunker (it cannot sign as the account),
+ * but it is what the bunker authorized, so it must survive restarts.
+ */
+export interface Nip46ClientState {
+  clientSecretKey: string;
+}
+
+function nip46StateFilePath(accountId: string): string {
+  return join(STATE_DIR, `${accountId}.nip46.json`);
+}
+
+export async function readNip46ClientState(opts: { accountId: string }): Promise<Nip46ClientState | null> {
+  try {
+    const data = await readFile(nip46StateFilePath(opts.accountId), "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+export async function writeNip46ClientState(state: Nip46ClientState & { accountId: string }): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true });
+  const { accountId, ...data } = state;
+  await writeFile(nip46StateFilePath(accountId), JSON.stringify(data, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Signed gift wraps that have not yet reached every relay they were sent to.
+ * The wraps are already encrypted, so storing them is no worse than the
+ * relays storing them.
+ */
+export interface OutboxRelayAttempt {
+  relay: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface OutboxEntry {
+  /** Gift wrap event id */
+  id: string;
+  rumorId: string;
+  rumorKind: number;
+  /** First characters of the rumor content, for failure notices */
+  preview: string;
+  /** Pubkey this wrap is addressed to (our own for the self-copy) */
+  recipient: string;
+  self: boolean;
+  /** Every participant of the conversation the rumor belongs to */
+  participants: string[];
+  subject?: string;
+  wrap: Record<string, unknown>;
+  /** True once any relay accepted this wrap */
+  delivered: boolean;
+  pending: OutboxRelayAttempt[];
+  createdAt: number;
+  deadlineAt: number;
+}
+
+export interface OutboxState {
+  entries: OutboxEntry[];
+  /** Rumor ids that missed their delivery deadline, newest last */
+  failed: Array<{ rumorId: string; recipient: string; failedAt: number; lastError?: string }>;
+}
+
+function outboxFilePath(accountId: string): string {
+  return join(STATE_DIR, `${accountId}.outbox.json`);
+}
+
+export async function readOutboxState(opts: { accountId: string }): Promise<OutboxState | null> {
+  try {
+    const data = await readFile(outboxFilePath(opts.accountId), "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+export async function writeOutboxState(state: OutboxState & { accountId: string }): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true });
+  const { accountId, ...data } = state;
+  await writeFile(outboxFilePath(accountId), JSON.stringify(data, null, 2));
+}
+
+/**
+ * Rumors this account published, newest last, so their self-copies are still
+ * recognized as ours after a restart.
+ */
+export interface SentRumorState {
+  rumors: Array<{ id: string; createdAt: number }>;
+}
+
+function sentRumorsFilePath(accountId: string): string {
+  return join(STATE_DIR, `${accountId}.sent.json`);
+}
+
+export async function readSentRumorState(opts: { accountId: string }): Promise<SentRumorState | null> {
+  try {
+    const data = await readFile(sentRumorsFilePath(opts.accountId), "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+export async function writeSentRumorState(state: SentRumorState & { accountId: string }): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true });
+  const { accountId, ...data } = state;
+  await writeFile(sentRumorsFilePath(accountId), JSON.stringify(data));
+}
+
+/**
+ * Message archive: a NIP-44 self-encrypted archive key, plus an append-only
+ * log of AES-GCM encrypted records (one base64 line per record).
+ */
+export interface ArchiveKeyState {
+  /** Account pubkey the key was wrapped for */
+  pubkey: string;
+  /** NIP-44 ciphertext (to ourselves) of the hex archive key */
+  wrappedKey: string;
+}
+
+function archiveKeyFilePath(accountId: string): string {
+  return join(STATE_DIR, `${accountId}.archive-key.json`);
+}
+
+function archiveLogFilePath(accountId: string): string {
+  return join(STATE_DIR, `${accountId}.archive.log`);
+}
+
+export async function readArchiveKeyState(opts: { accountId: string }): Promise<ArchiveKeyState | null> {
+  try {
+    const data = await readFile(archiveKeyFilePath(opts.accountId), "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+export async function writeArchiveKeyState(state: ArchiveKeyState & { accountId: string }): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true });
+  const { accountId, ...data } = state;
+  await writeFile(archiveKeyFilePath(accountId), JSON.stringify(data, null, 2), { mode: 0o600 });
+}
+
+export async function readArchiveLog(opts: { accountId: string }): Promise<string[]> {
+  try {
+    const data = await readFile(archiveLogFilePath(opts.accountId), "utf-8");
+    return data.split("\n").filter((line) => line.trim());
+  } catch {
+    return [];
+  }
+}
+
+export async function appendArchiveLog(opts: { accountId: string; lines: string[] }): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true });
+  await appendFile(archiveLogFilePath(opts.accountId), opts.lines.map((l) => `${l}\n`).join(""), { mode: 0o600 });
+}
+
+/** Replace the whole log (compaction after expired records were dropped). */
+export async function writeArchiveLog(opts: { accountId: string; lines: string[] }): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true });
+  const path = archiveLogFilePath(opts.accountId);
+  await writeFile(`${path}.tmp`, opts.lines.map((l) => `${l}\n`).join(""), { mode: 0o600 });
+  await rename(`${path}.tmp`, path);
+}
+
+/**
+ * Marker for the one-time relay history sync, so moving a bot to a new host
+ * restores context once instead of on every restart.
+ */
+export interface HistorySyncState {
+  syncedAt: number;
+  days: number;
+  conversations: number;
+  messages: number;
+}
+
+function historySyncFilePath(accountId: string): string {
+  return join(STATE_DIR, `${accountId}.history.json`);
+}
+
+export async function readHistorySyncState(opts: { accountId: string }): Promise<HistorySyncState | null> {
+  try {
+    const data = await readFile(historySyncFilePath(opts.accountId), "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+export async function writeHistorySyncState(state: HistorySyncState & { accountId: string }): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true });
+  const { accountId, ...data } = state;
+  await writeFile(historySyncFilePath(accountId), JSON.stringify(data, null, 2));
+}
+
+/**
+ * Pairing requests forwarded to the account's owners, and the owners'
+ * decisions. The first message is kept so the notice can quote it.
+ */
+export interface PairingRequest {
+  /** Hex pubkey of the sender asking to pair */
+  requester: string;
+  name?: string;
+  firstMessage: string;
+  /** Code from the framework's pairing store, when it issued one */
+  code?: string;
+  requestedAt: number;
+  /** Rumor ids of the notices sent to owners */
+  noticeIds: string[];
+}
+
+export interface PairingState {
+  pending: PairingRequest[];
+  approved: string[];
+  denied: string[];
+}
+
+function pairingFilePath(accountId: string): string {
+  return join(STATE_DIR, `${accountId}.pairing.json`);
+}
+
+export async function readPairingState(opts: { accountId: string }): Promise<PairingState | null> {
+  try {
+    const data = await readFile(pairingFilePath(opts.accountId), "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+export async function writePairingState(state: PairingState & { accountId: string }): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true });
+  const { accountId, ...data } = state;
+  await writeFile(pairingFilePath(accountId), JSON.stringify(data, null, 2), { mode: 0o600 });
+}
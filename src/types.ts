@@ -1,15 +1,24 @@
 import type { OpenClawConfig } from "openclaw/plugin-sdk/core";
 import type { Nip17AccountConfig, Nip17Config } from "./config-schema.js";
-import { getPublicKeyFromPrivate, DEFAULT_RELAYS } from "./nip17-bus.js";
+import { getPublicKeyFromPrivate, DEFAULT_RELAYS, type Nip17Profile } from "./nip17-bus.js";
+import { resolvePrivateKeySource } from "./secret-source.js";
 
 export interface ResolvedNip17Account {
   accountId: string;
   name?: string;
   enabled: boolean;
   configured: boolean;
+  /** Resolved key (nsec/hex) — env:/file:/ncryptsec references already resolved. */
   privateKey: string;
+  /** Why the configured privateKey reference could not be resolved, if it couldn't. */
+  privateKeyError?: string;
+  /** NIP-46 remote signer (bunker:// URL); used instead of privateKey when set. */
+  signer?: string;
+  /** Empty for remote-signer accounts until the bus has connected. */
   publicKey: string;
   relays: string[];
+  /** Kind:0 profile to publish, with the account name as default name. */
+  profile?: Nip17Profile;
   config: Nip17AccountConfig;
 }
 
@@ -28,16 +37,16 @@ export function listNip17AccountIds(cfg: OpenClawConfig): string[] {
   if (accounts && typeof accounts === "object") {
     const ids = Object.keys(accounts).filter(Boolean);
     if (ids.length > 0) {
-      // Also include "default" if top-level privateKey is set and "default" isn't explicitly in accounts
-      if (nip17Cfg.privateKey && !ids.includes(DEFAULT_ACCOUNT_ID)) {
+      // Also include "default" if a top-level key/signer is set and "default" isn't explicitly in accounts
+      if ((nip17Cfg.privateKey || nip17Cfg.signer) && !ids.includes(DEFAULT_ACCOUNT_ID)) {
         return [DEFAULT_ACCOUNT_ID, ...ids].sort((a, b) => a.localeCompare(b));
       }
       return ids.sort((a, b) => a.localeCompare(b));
     }
   }
 
-  // Fallback: single-account mode (top-level privateKey)
-  if (nip17Cfg.privateKey) return [DEFAULT_ACCOUNT_ID];
+  // Fallback: single-account mode (top-level privateKey or signer)
+  if (nip17Cfg.privateKey || nip17Cfg.signer) return [DEFAULT_ACCOUNT_ID];
   return [];
 }
 
@@ -59,6 +68,10 @@ function mergeAccountConfig(base: Nip17Config, accountOverride: Nip17AccountConf
     // Only override arrays if explicitly set in account config
     relays: accountOverride.relays ?? base.relays,
     allowFrom: accountOverride.allowFrom ?? base.allowFrom,
+    groupAllowFrom: accountOverride.groupAllowFrom ?? base.groupAllowFrom,
+    commandAllowFrom: accountOverride.commandAllowFrom ?? base.commandAllowFrom,
+    ownerPubkeys: accountOverride.ownerPubkeys ?? base.ownerPubkeys,
+    blossomServers: accountOverride.blossomServers ?? base.blossomServers,
   };
 }
 
@@ -79,29 +92,72 @@ export function resolveNip17Account(opts: {
   const merged = mergeAccountConfig(baseConfig as Nip17AccountConfig, accountOverride);
 
   const enabled = merged.enabled !== false;
-  const privateKey = merged.privateKey ?? "";
-  const configured = Boolean(privateKey.trim());
+  const privateKeyRef = merged.privateKey ?? "";
+  const signer = merged.signer?.trim() || undefined;
+  const configured = Boolean(privateKeyRef.trim() || signer);
 
+  let privateKey = "";
+  let privateKeyError: string | undefined;
   let publicKey = "";
-  if (configured) {
-    try { publicKey = getPublicKeyFromPrivate(privateKey); } catch {}
+  if (privateKeyRef.trim() && !signer) {
+    try {
+      privateKey = resolvePrivateKeySource(privateKeyRef, merged.privateKeyPassword);
+      publicKey = getPublicKeyFromPrivate(privateKey);
+    } catch (err) {
+      privateKeyError = (err as Error).message;
+    }
   }
 
+  const name = merged.name?.trim() || undefined;
+  const profile: Nip17Profile | undefined = merged.profile
+    ? {
+        ...merged.profile,
+        name: merged.profile.name ?? name,
+        display_name: merged.profile.display_name ?? merged.profile.name ?? name,
+        bot: merged.profile.bot ?? true,
+      }
+    : undefined;
+
   return {
     accountId,
-    name: merged.name?.trim() || undefined,
+    name,
     enabled,
     configured,
     privateKey,
+    privateKeyError,
+    signer,
     publicKey,
     relays: merged.relays ?? DEFAULT_RELAYS,
+    profile,
     config: {
       enabled: merged.enabled,
       name: merged.name,
       privateKey: merged.privateKey,
+      privateKeyPassword: merged.privateKeyPassword,
+      signer: merged.signer,
       relays: merged.relays,
       dmPolicy: merged.dmPolicy,
+      webOfTrust: merged.webOfTrust,
       allowFrom: merged.allowFrom,
+      groupAllowFrom: merged.groupAllowFrom,
+      commandAllowFrom: merged.commandAllowFrom,
+      ownerPubkeys: merged.ownerPubkeys,
+      pairingMessages: merged.pairingMessages,
+      contacts: merged.contacts,
+      blossomServers: merged.blossomServers,
+      publishServerList: merged.publishServerList,
+      sessionPerSubject: merged.sessionPerSubject,
+      outboxDeadlineMinutes: merged.outboxDeadlineMinutes,
+      archive: merged.archive,
+      historySync: merged.historySync,
+      operatorPauseMinutes: merged.operatorPauseMinutes,
+      antiSpam: merged.antiSpam,
+      media: merged.media,
+      mediaRetention: merged.mediaRetention,
+      messageTtl: merged.messageTtl,
+      peerMessageTtl: merged.peerMessageTtl,
+      inheritMessageTtl: merged.inheritMessageTtl,
+      profile: merged.profile,
     },
   };
 }
@@ -0,0 +1,214 @@
+import { readFileSync } from "node:fs";
+import { writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { SimplePool, type Event } from "nostr-tools";
+import { DISCOVERY_RELAYS } from "./relay-cache.js";
+
+/**
+ * Web of trust for `dmPolicy: "follows"`: the owner's kind 3 follow list,
+ * optionally expanded to follows-of-follows, minus the public entries of the
+ * owner's NIP-51 mute list (kind 10000).
+ *
+ * The resolved lists are cached on disk so a restart (or a relay outage)
+ * doesn't lock everyone out while the lists are re-fetched.
+ */
+
+const CACHE_DIR = join(homedir(), ".openclaw", "state", "nostr-nip17", "wot-cache");
+
+export const DEFAULT_WOT_DEPTH = 1;
+export const DEFAULT_WOT_REFRESH_MINUTES = 60;
+
+// Each hop can multiply the set by a few hundred; stop expanding past this.
+const MAX_TRUSTED = 100_000;
+// Authors per kind 3 query when expanding a hop
+const AUTHORS_PER_QUERY = 250;
+const QUERY_MAX_WAIT_MS = 10_000;
+
+export interface WebOfTrustSnapshot {
+  /** Hex pubkey whose follow and mute lists define the web */
+  owner: string;
+  depth: number;
+  /** Owner plus everyone within `depth` follow hops, sorted */
+  trusted: string[];
+  /** Public `p` entries of the owner's kind 10000 mute list */
+  muted: string[];
+  fetchedAt: number;
+}
+
+export type TrustDecision = "trusted" | "muted" | "unknown";
+
+// Snapshots by `${owner}:${depth}`, shared with the security adapter
+const memoryCache = new Map<string, { snapshot: WebOfTrustSnapshot; trusted: Set<string>; muted: Set<string> }>();
+
+function cacheKey(owner: string, depth: number): string {
+  return `${owner}:${depth}`;
+}
+
+function cacheFilePath(owner: string, depth: number): string {
+  return join(CACHE_DIR, `${owner}-d${depth}.json`);
+}
+
+function remember(snapshot: WebOfTrustSnapshot): void {
+  memoryCache.set(cacheKey(snapshot.owner, snapshot.depth), {
+    snapshot,
+    trusted: new Set(snapshot.trusted),
+    muted: new Set(snapshot.muted),
+  });
+}
+
+/**
+ * Last resolved web for an owner, from memory or disk. Null when the lists
+ * have never been fetched.
+ */
+export function readCachedWebOfTrust(owner: string, depth: number = DEFAULT_WOT_DEPTH): WebOfTrustSnapshot | null {
+  const mem = memoryCache.get(cacheKey(owner, depth));
+  if (mem) return mem.snapshot;
+  try {
+    const snapshot = JSON.parse(readFileSync(cacheFilePath(owner, depth), "utf-8")) as WebOfTrustSnapshot;
+    remember(snapshot);
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a sender is inside the owner's web. The mute list wins over any
+ * follow path; an owner whose lists were never fetched trusts nobody.
+ */
+export function trustDecision(owner: string, depth: number, pubkey: string): TrustDecision {
+  if (!readCachedWebOfTrust(owner, depth)) return "unknown";
+  const entry = memoryCache.get(cacheKey(owner, depth))!;
+  if (entry.muted.has(pubkey)) return "muted";
+  return entry.trusted.has(pubkey) ? "trusted" : "unknown";
+}
+
+async function writeCache(snapshot: WebOfTrustSnapshot): Promise<void> {
+  await mkdir(CACHE_DIR, { recursive: true });
+  await writeFile(cacheFilePath(snapshot.owner, snapshot.depth), JSON.stringify(snapshot));
+  remember(snapshot);
+}
+
+function pTags(event: Event): string[] {
+  return (event.tags || [])
+    .filter((t) => t[0] === "p" && t[1] && /^[0-9a-f]{64}$/i.test(t[1]))
+    .map((t) => t[1].toLowerCase());
+}
+
+/**
+ * Latest replaceable event of `kind` per author.
+ */
+async function fetchLatestByAuthor(
+  pool: SimplePool,
+  relays: string[],
+  kind: number,
+  authors: string[],
+): Promise<Map<string, Event>> {
+  const latest = new Map<string, Event>();
+  for (let i = 0; i < authors.length; i += AUTHORS_PER_QUERY) {
+    const chunk = authors.slice(i, i + AUTHORS_PER_QUERY);
+    const events: Event[] = await pool.querySync(
+      relays,
+      { kinds: [kind], authors: chunk },
+      { maxWait: QUERY_MAX_WAIT_MS },
+    );
+    for (const event of events) {
+      const current = latest.get(event.pubkey);
+      if (!current || event.created_at > current.created_at) latest.set(event.pubkey, event);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Fetch the owner's follow graph to `depth` hops plus their mute list, and
+ * cache the result. Throws when the owner's own follow list can't be found,
+ * so a relay hiccup never replaces a good cached web with an empty one.
+ */
+export async function fetchWebOfTrust(
+  pool: SimplePool,
+  owner: string,
+  depth: number,
+  queryRelays: string[],
+): Promise<WebOfTrustSnapshot> {
+  const normalizeUrl = (u: string) => u.replace(/\/+$/, "").toLowerCase();
+  const seen = new Set(queryRelays.map(normalizeUrl));
+  const allQueryRelays = [...queryRelays, ...DISCOVERY_RELAYS.filter((r) => !seen.has(normalizeUrl(r)))];
+
+  const ownerLists = await fetchLatestByAuthor(pool, allQueryRelays, 3, [owner]);
+  if (!ownerLists.get(owner)) throw new Error(`No kind 3 follow list found for owner ${owner}`);
+
+  const trusted = new Set<string>([owner]);
+  let frontier = [owner];
+  for (let hop = 0; hop < depth && frontier.length > 0 && trusted.size < MAX_TRUSTED; hop++) {
+    const lists = hop === 0 ? ownerLists : await fetchLatestByAuthor(pool, allQueryRelays, 3, frontier);
+    const next: string[] = [];
+    for (const event of lists.values()) {
+      for (const pubkey of pTags(event)) {
+        if (trusted.has(pubkey) || trusted.size >= MAX_TRUSTED) continue;
+        trusted.add(pubkey);
+        next.push(pubkey);
+      }
+    }
+    frontier = next;
+  }
+
+  const muteList = (await fetchLatestByAuthor(pool, allQueryRelays, 10000, [owner])).get(owner);
+  const snapshot: WebOfTrustSnapshot = {
+    owner,
+    depth,
+    trusted: [...trusted].sort(),
+    muted: muteList ? [...new Set(pTags(muteList))].sort() : [],
+    fetchedAt: Date.now(),
+  };
+  await writeCache(snapshot);
+  return snapshot;
+}
+
+export interface WebOfTrustTracker {
+  current: () => WebOfTrustSnapshot | null;
+  close: () => void;
+}
+
+/**
+ * Keep an owner's web fresh: fetch now unless the cached copy is younger
+ * than the refresh interval, then re-fetch on that interval. Failed fetches
+ * keep the previous web.
+ */
+export function trackWebOfTrust(opts: {
+  pool: SimplePool;
+  owner: string;
+  depth?: number;
+  refreshMinutes?: number;
+  queryRelays: string[];
+  onUpdate?: (snapshot: WebOfTrustSnapshot) => void;
+  onError?: (error: Error, context: string) => void;
+}): WebOfTrustTracker {
+  const depth = opts.depth ?? DEFAULT_WOT_DEPTH;
+  const refreshMs = (opts.refreshMinutes ?? DEFAULT_WOT_REFRESH_MINUTES) * 60 * 1000;
+  let refreshing = false;
+
+  const refresh = async () => {
+    if (refreshing) return;
+    refreshing = true;
+    try {
+      opts.onUpdate?.(await fetchWebOfTrust(opts.pool, opts.owner, depth, opts.queryRelays));
+    } catch (err) {
+      opts.onError?.(err as Error, `web of trust for ${opts.owner}`);
+    } finally {
+      refreshing = false;
+    }
+  };
+
+  const cached = readCachedWebOfTrust(opts.owner, depth);
+  if (!cached || Date.now() - cached.fetchedAt >= refreshMs) void refresh();
+  const timer = setInterval(() => void refresh(), refreshMs);
+  // Never the reason the process stays up
+  timer.unref?.();
+
+  return {
+    current: () => readCachedWebOfTrust(opts.owner, depth),
+    close: () => clearInterval(timer),
+  };
+}
@@ -0,0 +1,12 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll } from "vitest";
+
+// State files, caches and saved media all live under the home directory;
+// give every test file its own so runs never touch the real one.
+const home = mkdtempSync(join(tmpdir(), "nostr-nip17-test-"));
+process.env.HOME = home;
+delete process.env.OPENCLAW_STATE_DIR;
+
+afterAll(() => rmSync(home, { recursive: true, force: true }));